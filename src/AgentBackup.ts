@@ -0,0 +1,124 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import type { LettaService } from './LettaService';
+import { describeError } from './errors';
+import {
+  AgentFile,
+  AgentFileError,
+  AGENT_FILE_FORMAT,
+  AGENT_FILE_VERSION,
+  agentFileName,
+  parseAgentFile,
+} from './agentFile';
+
+const ARCHIVAL_EXPORT_LIMIT = 10000;
+
+/**
+ * Export an agent's persona, memory and model config to a file in the vault
+ * Returns the created file.
+ */
+export async function exportAgent(
+  app: App,
+  lettaService: LettaService,
+  agentId: string,
+  folder: string,
+  therapistName: string,
+  modelHandle?: string
+): Promise<TFile> {
+  const agent = await lettaService.getAgent(agentId);
+  if (!agent) {
+    throw new AgentFileError('Agent no longer exists on the server');
+  }
+
+  const [blocks, archival] = await Promise.all([
+    lettaService.getMemoryBlocks(agentId),
+    lettaService.getArchivalMemory(agentId, ARCHIVAL_EXPORT_LIMIT),
+  ]);
+
+  const llmHandle = agent.llmConfig?.handle;
+  const agentFile: AgentFile = {
+    format: AGENT_FILE_FORMAT,
+    version: AGENT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: {
+      name: agent.name,
+      model: modelHandle || (typeof llmHandle === 'string' ? llmHandle : agent.model),
+      embedding: agent.embedding,
+      llmConfig: agent.llmConfig,
+    },
+    therapistName,
+    blocks: blocks.map(b => ({ label: b.label, value: b.value })),
+    // Oldest first so import recreates them in the original order
+    archival: archival
+      .map(m => ({ text: m.text, created_at: m.created_at }))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+  };
+
+  const folderPath = normalizePath(folder);
+  if (!app.vault.getAbstractFileByPath(folderPath)) {
+    await app.vault.createFolder(folderPath);
+  }
+
+  // Two exports within a second would otherwise collide
+  const fileName = agentFileName(agent.name, new Date());
+  let filePath = normalizePath(`${folderPath}/${fileName}`);
+  for (let n = 2; app.vault.getAbstractFileByPath(filePath); n++) {
+    filePath = normalizePath(`${folderPath}/${fileName.replace(/\.json$/, `-${n}.json`)}`);
+  }
+  return app.vault.create(filePath, JSON.stringify(agentFile, null, 2));
+}
+
+/**
+ * Recreate an agent from a backup file on the current server
+ * Returns the new agent's ID along with the parsed backup. If its memory can't be
+ * restored the half-made agent is deleted, or its ID reported if that fails too.
+ */
+export async function importAgent(
+  app: App,
+  lettaService: LettaService,
+  file: TFile,
+  onProgress?: (message: string) => void
+): Promise<{ agentId: string; agentFile: AgentFile }> {
+  const agentFile = parseAgentFile(await app.vault.read(file));
+
+  const persona = agentFile.blocks.find(b => b.label === 'persona')!;
+  const human = agentFile.blocks.find(b => b.label === 'human');
+  const customBlocks = agentFile.blocks.filter(b => b.label !== 'persona' && b.label !== 'human');
+
+  onProgress?.(`Creating ${agentFile.agent.name} with ${agentFile.agent.model}...`);
+  const agentId = await lettaService.createAgent(
+    agentFile.agent.name,
+    'custom',
+    agentFile.agent.model,
+    agentFile.agent.embedding,
+    persona.value
+  );
+
+  try {
+    if (human) {
+      await lettaService.updateMemoryBlock(agentId, 'human', human.value);
+    }
+
+    for (const block of customBlocks) {
+      await lettaService.createMemoryBlock(agentId, block.label, block.value);
+    }
+
+    for (let i = 0; i < agentFile.archival.length; i++) {
+      if (i % 25 === 0) {
+        onProgress?.(`Restoring memories ${i + 1}/${agentFile.archival.length}...`);
+      }
+      await lettaService.addArchivalMemory(agentId, agentFile.archival[i].text);
+    }
+  } catch (error) {
+    try {
+      await lettaService.deleteAgent(agentId);
+    } catch (deleteError) {
+      console.warn(`Could not delete partly restored agent ${agentId}:`, deleteError);
+      throw new AgentFileError(
+        `${describeError(error)} — the partly restored agent ${agentId} is still on the server, delete it there`
+      );
+    }
+    throw error;
+  }
+
+  return { agentId, agentFile };
+}
@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+export interface AgentChoice {
+  /** Empty for "no per-note choice" */
+  id: string;
+  name: string;
+}
+
+// Agent picker for the "switch agent for this note" command
+export class AgentSuggestModal extends FuzzySuggestModal<AgentChoice> {
+  private choices: AgentChoice[];
+  private currentId: string;
+  private onChoose: (choice: AgentChoice) => void;
+
+  constructor(app: App, choices: AgentChoice[], currentId: string, onChoose: (choice: AgentChoice) => void) {
+    super(app);
+    this.choices = choices;
+    this.currentId = currentId;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose who responds in this note');
+  }
+
+  getItems(): AgentChoice[] {
+    return this.choices;
+  }
+
+  getItemText(choice: AgentChoice): string {
+    return choice.id === this.currentId ? `${choice.name} ✓` : choice.name;
+  }
+
+  onChooseItem(choice: AgentChoice): void {
+    this.onChoose(choice);
+  }
+}
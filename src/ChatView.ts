@@ -0,0 +1,223 @@
+import { Component, ItemView, MarkdownRenderer, Notice, WorkspaceLeaf } from 'obsidian';
+import type TherapistPlugin from './main';
+import { ChatEntry, toChatEntries } from './chatHistory';
+import { describeError } from './errors';
+
+export const VIEW_TYPE_CHAT = 'therapist-chat';
+
+const HISTORY_LIMIT = 100; // Messages fetched when the panel loads
+
+// Sidebar for talking to an agent without writing into a note
+export class ChatView extends ItemView {
+  private plugin: TherapistPlugin;
+  private agentId = '';
+  private entries: ChatEntry[] = [];
+  private listEl: HTMLElement | null = null;
+  private inputEl: HTMLTextAreaElement | null = null;
+  private sendButton: HTMLButtonElement | null = null;
+  private controller: AbortController | null = null;
+  // Owns the rendered markdown of the current list, replaced on every render
+  private listComponent: Component | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: TherapistPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_CHAT;
+  }
+
+  getDisplayText(): string {
+    return 'Therapist chat';
+  }
+
+  getIcon(): string {
+    return 'message-circle';
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('therapist-chat-view');
+
+    const agents = this.plugin.getChatAgents();
+    if (!agents.some(a => a.id === this.agentId)) {
+      this.agentId = agents.length > 0 ? agents[0].id : '';
+    }
+
+    const toolbarEl = contentEl.createDiv({ cls: 'therapist-chat-toolbar' });
+    const agentEl = toolbarEl.createEl('select', { cls: 'dropdown therapist-chat-agent' });
+    for (const agent of agents) {
+      agentEl.createEl('option', { text: agent.name, value: agent.id });
+    }
+    agentEl.value = this.agentId;
+    agentEl.addEventListener('change', () => {
+      this.agentId = agentEl.value;
+      this.loadHistory();
+    });
+
+    const reloadButton = toolbarEl.createEl('button', { text: 'Reload', cls: 'therapist-memory-btn' });
+    reloadButton.addEventListener('click', () => this.loadHistory());
+
+    this.listEl = contentEl.createDiv({ cls: 'therapist-chat-list' });
+
+    const composerEl = contentEl.createDiv({ cls: 'therapist-chat-composer' });
+    this.inputEl = composerEl.createEl('textarea', {
+      cls: 'therapist-chat-input',
+      attr: { placeholder: 'Say something... (Enter to send, Shift+Enter for a new line)', rows: '3' },
+    });
+    this.inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+        e.preventDefault();
+        this.send();
+      }
+    });
+    this.sendButton = composerEl.createEl('button', { text: 'Send', cls: 'mod-cta' });
+    this.sendButton.addEventListener('click', () => {
+      if (this.controller) {
+        this.controller.abort();
+      } else {
+        this.send();
+      }
+    });
+
+    await this.loadHistory();
+  }
+
+  async onClose() {
+    this.controller?.abort();
+    this.listComponent?.unload();
+    this.listComponent = null;
+    this.contentEl.empty();
+    this.listEl = null;
+    this.inputEl = null;
+    this.sendButton = null;
+  }
+
+  /**
+   * Fetch the agent's recent conversation and show it
+   */
+  async loadHistory() {
+    if (!this.listEl) return;
+    if (!this.agentId) {
+      this.entries = [];
+      this.showStatus('No therapist agent configured');
+      return;
+    }
+
+    this.showStatus('Loading conversation...');
+    try {
+      this.entries = toChatEntries(await this.plugin.backend.getMessages(this.agentId, HISTORY_LIMIT));
+      this.render();
+    } catch (error) {
+      console.error('Error loading chat history:', error);
+      this.entries = [];
+      this.showStatus(`Failed to load the conversation: ${describeError(error)}`);
+    }
+  }
+
+  private showStatus(text: string) {
+    if (!this.listEl) return;
+    this.listEl.empty();
+    this.listEl.createDiv({ text, cls: 'therapist-memory-empty' });
+  }
+
+  private render() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+    this.listComponent?.unload();
+    this.listComponent = new Component();
+    this.listComponent.load();
+
+    if (this.entries.length === 0) {
+      this.showStatus('No messages yet - say hello');
+      return;
+    }
+
+    this.entries.forEach((entry, index) => {
+      const previous = this.entries[index - 1];
+      this.renderEntry(entry, previous && previous.role === 'user' ? previous : null);
+    });
+    this.listEl.scrollTop = this.listEl.scrollHeight;
+  }
+
+  /**
+   * One message, with a way to copy a reply and what prompted it into a note
+   */
+  private renderEntry(entry: ChatEntry, prompt: ChatEntry | null) {
+    const itemEl = this.listEl!.createDiv({ cls: `therapist-chat-message is-${entry.role}` });
+
+    const meta: string[] = [entry.role === 'user' ? 'You' : this.plugin.getAgentName(this.agentId)];
+    if (entry.timestamp !== null) {
+      meta.push(new Date(entry.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }));
+    }
+    if (entry.fromNote) {
+      meta.push('from a note');
+    }
+    itemEl.createDiv({ text: meta.join(' · '), cls: 'therapist-chat-meta' });
+
+    const textEl = itemEl.createDiv({ cls: 'therapist-chat-text markdown-rendered' });
+    MarkdownRenderer.render(this.app, entry.text, textEl, '', this.listComponent!);
+    this.plugin.handleInsightLinks(textEl, '');
+
+    if (entry.role === 'assistant' && prompt) {
+      const copyButton = itemEl.createEl('button', { text: 'Copy exchange into note', cls: 'therapist-memory-btn' });
+      copyButton.addEventListener('click', () => this.plugin.copyExchangeToNote(prompt.text, entry.text, this.agentId));
+    }
+  }
+
+  private async send() {
+    if (!this.inputEl || !this.listEl || this.controller) return;
+    const text = this.inputEl.value.trim();
+    if (!text || !this.agentId) return;
+
+    const agentId = this.agentId;
+    this.entries.push({ role: 'user', text, timestamp: Date.now(), fromNote: false });
+    this.inputEl.value = '';
+    this.render();
+
+    // Streamed text goes into a plain placeholder until the reply is complete
+    const pendingEl = this.listEl.createDiv({ cls: 'therapist-chat-message is-assistant is-pending' });
+    pendingEl.createDiv({ text: this.plugin.getAgentName(agentId), cls: 'therapist-chat-meta' });
+    const pendingText = pendingEl.createDiv({ text: '...', cls: 'therapist-chat-text' });
+    this.listEl.scrollTop = this.listEl.scrollHeight;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.sendButton?.setText('Stop');
+    let received = '';
+
+    try {
+      const response = await this.plugin.sendChatMessage(agentId, text, (partial) => {
+        received = partial;
+        pendingText.setText(partial);
+        if (this.listEl) this.listEl.scrollTop = this.listEl.scrollHeight;
+      }, controller.signal);
+      received = response.text;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error in chat:', error);
+        new Notice(`Failed to get response: ${describeError(error)}`);
+      }
+      if (!received && agentId === this.agentId) {
+        // The agent never answered - give the message back to edit or resend
+        this.entries.pop();
+        if (this.inputEl && !this.inputEl.value) {
+          this.inputEl.value = text;
+        }
+      }
+    } finally {
+      this.controller = null;
+      this.sendButton?.setText('Send');
+    }
+
+    // The agent may have switched while this was in flight
+    if (received.trim() && agentId === this.agentId) {
+      this.entries.push({ role: 'assistant', text: received.trim(), timestamp: Date.now(), fromNote: false });
+    }
+    if (agentId === this.agentId) {
+      this.render();
+    }
+  }
+}
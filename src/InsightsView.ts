@@ -0,0 +1,164 @@
+import { Component, ItemView, MarkdownRenderer, WorkspaceLeaf } from 'obsidian';
+import type TherapistPlugin from './main';
+import { Insight, groupInsights, searchInsights } from './insights';
+
+export const VIEW_TYPE_INSIGHTS = 'therapist-insights';
+
+const STATUS_LABELS: Record<Insight['status'], string> = {
+  pending: 'New',
+  dismissed: 'Dismissed',
+  inserted: 'Inserted',
+};
+
+// Sidebar with every insight ever offered, grouped by note and day
+export class InsightsView extends ItemView {
+  private plugin: TherapistPlugin;
+  private query = '';
+  private showArchived = false;
+  private listEl: HTMLElement | null = null;
+  // Owns the rendered markdown of the current list, replaced on every refresh
+  private listComponent: Component | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: TherapistPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_INSIGHTS;
+  }
+
+  getDisplayText(): string {
+    return 'Therapist insights';
+  }
+
+  getIcon(): string {
+    return 'lightbulb';
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('therapist-insights-view');
+
+    const toolbarEl = contentEl.createDiv({ cls: 'therapist-insights-toolbar' });
+    const searchEl = toolbarEl.createEl('input', {
+      type: 'search',
+      placeholder: 'Search insights...',
+      cls: 'therapist-insights-search',
+    });
+    searchEl.value = this.query;
+    searchEl.addEventListener('input', () => {
+      this.query = searchEl.value;
+      this.refresh();
+    });
+
+    const archivedLabel = toolbarEl.createEl('label', { cls: 'therapist-insights-archived-toggle' });
+    const archivedEl = archivedLabel.createEl('input', { type: 'checkbox' });
+    archivedEl.checked = this.showArchived;
+    archivedLabel.appendText(' Show archived');
+    archivedEl.addEventListener('change', () => {
+      this.showArchived = archivedEl.checked;
+      this.refresh();
+    });
+
+    this.listEl = contentEl.createDiv({ cls: 'therapist-insights-list' });
+    this.refresh();
+  }
+
+  async onClose() {
+    this.listComponent?.unload();
+    this.listComponent = null;
+    this.contentEl.empty();
+    this.listEl = null;
+  }
+
+  /**
+   * Re-render the list, keeping the search and filters
+   */
+  refresh() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+    this.listComponent?.unload();
+    this.listComponent = new Component();
+    this.listComponent.load();
+
+    const visible = this.plugin.insights.all().filter(i => this.showArchived || !i.archived);
+    const matching = searchInsights(visible, this.query);
+    if (matching.length === 0) {
+      this.listEl.createDiv({
+        text: this.query ? 'No insights match your search' : 'No insights yet',
+        cls: 'therapist-memory-empty',
+      });
+      return;
+    }
+
+    const pinned = matching.filter(i => i.pinned).sort((a, b) => b.timestamp - a.timestamp);
+    if (pinned.length > 0) {
+      const pinnedEl = this.listEl.createDiv({ cls: 'therapist-insights-group' });
+      pinnedEl.createDiv({ text: 'Pinned', cls: 'therapist-insights-note' });
+      for (const insight of pinned) {
+        this.renderInsight(pinnedEl, insight, true);
+      }
+    }
+
+    for (const group of groupInsights(matching.filter(i => !i.pinned))) {
+      const groupEl = this.listEl.createDiv({ cls: 'therapist-insights-group' });
+      const noteEl = groupEl.createDiv({
+        text: group.notePath.replace(/\.md$/, '').split('/').pop() || group.notePath,
+        cls: 'therapist-insights-note',
+        attr: { title: group.notePath },
+      });
+      noteEl.addEventListener('click', () => this.plugin.openInsightNote(group.notePath));
+
+      for (const day of group.days) {
+        groupEl.createDiv({ text: day.day, cls: 'therapist-insights-day' });
+        for (const insight of day.insights) {
+          this.renderInsight(groupEl, insight, false);
+        }
+      }
+    }
+  }
+
+  private renderInsight(container: HTMLElement, insight: Insight, showNote: boolean) {
+    const itemEl = container.createDiv({ cls: 'therapist-insights-item' });
+    if (insight.archived) {
+      itemEl.addClass('is-archived');
+    }
+
+    const textEl = itemEl.createDiv({ cls: 'therapist-insights-text markdown-rendered' });
+    MarkdownRenderer.render(this.app, insight.text, textEl, insight.notePath, this.listComponent!);
+    this.plugin.handleInsightLinks(textEl, insight.notePath);
+
+    const time = new Date(insight.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const meta = [
+      showNote ? `${new Date(insight.timestamp).toLocaleDateString()} ${time}` : time,
+      this.plugin.getAgentName(insight.agentId),
+      STATUS_LABELS[insight.status],
+    ];
+    if (insight.rating) {
+      meta.push(insight.rating.helpful ? '👍' : '👎');
+    }
+    if (showNote) {
+      meta.push(insight.notePath);
+    }
+    itemEl.createDiv({ text: meta.join(' · '), cls: 'therapist-insights-meta' });
+
+    if (insight.trigger) {
+      const details = itemEl.createEl('details', { cls: 'therapist-insights-trigger' });
+      details.createEl('summary', { text: 'In response to' });
+      details.createDiv({ text: insight.trigger });
+    }
+
+    const actionsEl = itemEl.createDiv({ cls: 'therapist-insights-actions' });
+    const action = (label: string, onClick: () => void) => {
+      const button = actionsEl.createEl('button', { text: label, cls: 'therapist-memory-btn' });
+      button.addEventListener('click', onClick);
+    };
+
+    action('Open note', () => this.plugin.openInsightNote(insight.notePath));
+    action('Insert', () => this.plugin.insertInsight(insight));
+    action(insight.pinned ? 'Unpin' : 'Pin', () => this.plugin.insights.setPinned(insight, !insight.pinned));
+    action(insight.archived ? 'Unarchive' : 'Archive', () => this.plugin.insights.setArchived(insight, !insight.archived));
+  }
+}
@@ -1,8 +1,27 @@
-import { requestUrl } from 'obsidian';
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { splitSSEEvents, getAssistantDelta } from './sseParser';
+import { parseAgentMessages, parseHistoryMessages, AgentResponse } from './agentResponse';
+import {
+  LettaAuthError,
+  LettaError,
+  LettaNetworkError,
+  LettaNotFoundError,
+  LettaRateLimitError,
+  LettaTimeoutError,
+  backoffDelay,
+  errorFromResponse,
+  isRetryable,
+  resourceFromPath,
+  withTimeout,
+  LettaResource,
+  LettaUnsupportedError,
+} from './errors';
+import type { TherapistBackend, MemoryBlock, ArchivalMemory, HistoryMessage, Passage } from './TherapistBackend';
+import { ServerCapabilities, ServerFeature, FEATURE_NAMES, capabilitiesFor, endpointPath } from './serverCapabilities';
 
 export type AgentRole = 'therapist' | 'analyst' | 'custom';
 
-const ROLE_PERSONAS: Record<AgentRole, string> = {
+export const ROLE_PERSONAS: Record<AgentRole, string> = {
   therapist: `You are my personal coach. Read between the lines of what I write.
 
 My journaling may be scattered, venting, or stream-of-consciousness. Your job:
@@ -52,10 +71,28 @@ Only speak when you spot something actionable. Quality over quantity.`,
   custom: `You are a helpful assistant in a journaling session. Be supportive and give practical suggestions when appropriate.`
 };
 
+const DEFAULT_TIMEOUT_MS = 30000;
+const MESSAGE_TIMEOUT_MS = 120000; // LLM calls can be slow, especially with tool use
+const MAX_RETRIES = 3;
+
+export interface AgentDetails {
+  id: string;
+  name: string;
+  model: string;
+  embedding: string;
+  llmConfig?: Record<string, unknown>;
+}
+
+interface RequestOptions {
+  /** Safe to repeat if the first attempt fails transiently */
+  idempotent?: boolean;
+  timeoutMs?: number;
+}
+
 /**
  * Service for communicating with the Letta server
  */
-export class LettaService {
+export class LettaService implements TherapistBackend {
   private baseUrl: string;
   private apiKey: string;
 
@@ -66,6 +103,7 @@ export class LettaService {
 
   setBaseUrl(url: string) {
     this.baseUrl = url;
+    this.capabilities = null;
   }
 
   setApiKey(key: string) {
@@ -73,6 +111,7 @@ export class LettaService {
   }
 
   private providerKeys: Record<string, string> = {};
+  private capabilities: ServerCapabilities | null = null;
 
   setProviderKey(provider: string, key: string) {
     this.providerKeys[provider] = key;
@@ -88,17 +127,70 @@ export class LettaService {
     return headers;
   }
 
+  /**
+   * Make a request to the Letta server
+   * Throws a LettaError subclass on failure. GET requests and anything marked
+   * idempotent are retried with exponential backoff on transient failures.
+   */
+  private async request(
+    path: string,
+    action: string,
+    init: { method?: string; body?: unknown } = {},
+    options: RequestOptions = {}
+  ): Promise<RequestUrlResponse> {
+    const method = init.method ?? 'GET';
+    const idempotent = options.idempotent ?? (method === 'GET' || method === 'DELETE');
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const resource = resourceFromPath(path);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        let response: RequestUrlResponse;
+        try {
+          response = await withTimeout(
+            requestUrl({
+              url: `${this.baseUrl}${endpointPath(path)}`,
+              method,
+              headers: this.getHeaders(),
+              body: init.body === undefined ? undefined : JSON.stringify(init.body),
+              throw: false,
+            }),
+            timeoutMs,
+            () => new LettaTimeoutError(`Timed out trying to ${action}`, timeoutMs, resource)
+          );
+        } catch (error) {
+          if (error instanceof LettaError) throw error;
+          throw new LettaNetworkError(
+            `Failed to ${action}: ${error instanceof Error ? error.message : 'network error'}`,
+            resource
+          );
+        }
+
+        if (response.status >= 200 && response.status < 300) {
+          return response;
+        }
+        throw errorFromResponse(
+          response.status,
+          response.text,
+          action,
+          path,
+          response.headers?.['retry-after']
+        );
+      } catch (error) {
+        if (!idempotent || attempt >= MAX_RETRIES || !isRetryable(error)) {
+          throw error;
+        }
+        const retryAfter = error instanceof LettaRateLimitError ? error.retryAfterMs : undefined;
+        await sleep(backoffDelay(attempt, 500, 8000, retryAfter));
+      }
+    }
+  }
+
   /**
    * List available models from the Letta server
    */
   async listModels(): Promise<Array<{ handle: string; name: string; provider: string }>> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/models`,
-      headers: this.getHeaders(),
-    });
-    if (response.status !== 200) {
-      throw new Error('Failed to fetch models');
-    }
+    const response = await this.request('/v1/models', 'fetch models');
     const models = response.json;
     return models.map((m: { handle: string; name: string; provider_name: string }) => ({
       handle: m.handle,
@@ -107,70 +199,76 @@ export class LettaService {
     }));
   }
 
+  /**
+   * List embedding models available on the server
+   */
+  async listEmbeddingModels(): Promise<Array<{ handle: string; name: string; provider: string }>> {
+    await this.requireFeature('embeddingModels', 'server');
+    const response = await this.request('/v1/models/embedding', 'fetch embedding models');
+    const models = response.json;
+    return models.map((m: { handle: string; embedding_model: string; provider_name?: string; embedding_endpoint_type?: string }) => ({
+      handle: m.handle || `${m.embedding_endpoint_type}/${m.embedding_model}`,
+      name: m.embedding_model,
+      provider: m.provider_name ?? m.embedding_endpoint_type ?? '',
+    }));
+  }
+
   /**
    * Create or update a provider with API key on the server
-   * Note: Letta requires trailing slashes on provider endpoints
    */
   async updateProviderKey(provider: string, apiKey: string): Promise<void> {
+    await this.requireFeature('providers', 'provider');
+
+    // First check if provider exists
+    const existingProviders = await this.request('/v1/providers', 'list providers');
+
+    const providers = existingProviders.json as Array<{ id: string; name: string; provider_type: string }>;
+    const existing = providers.find(p => p.provider_type === provider);
+
+    if (existing) {
+      // Update existing provider with PATCH
+      await this.request(`/v1/providers/${existing.id}`, `update ${provider} provider`, {
+        method: 'PATCH',
+        body: { api_key: apiKey },
+      }, { idempotent: true });
+      console.log(`Updated ${provider} provider`);
+      return;
+    }
+
+    // Create new provider
     try {
-      // First check if provider exists (need trailing slash for Letta)
-      const existingProviders = await requestUrl({
-        url: `${this.baseUrl}/v1/providers/`,
-        headers: this.getHeaders(),
+      await this.request('/v1/providers', `create ${provider} provider`, {
+        method: 'POST',
+        body: {
+          name: provider,
+          provider_type: provider,
+          api_key: apiKey,
+        },
       });
-
-      const providers = existingProviders.json as Array<{ id: string; name: string; provider_type: string }>;
-      const existing = providers.find(p => p.provider_type === provider);
-
-      if (existing) {
-        // Update existing provider with PATCH
-        await requestUrl({
-          url: `${this.baseUrl}/v1/providers/${existing.id}`,
-          method: 'PATCH',
-          headers: this.getHeaders(),
-          body: JSON.stringify({ api_key: apiKey }),
-        });
-        console.log(`Updated ${provider} provider`);
-      } else {
-        // Create new provider
-        try {
-          await requestUrl({
-            url: `${this.baseUrl}/v1/providers/`,
-            method: 'POST',
-            headers: this.getHeaders(),
-            body: JSON.stringify({
-              name: provider,
-              provider_type: provider,
-              api_key: apiKey,
-            }),
-          });
-          console.log(`Created ${provider} provider`);
-        } catch (createError) {
-          // If 409 conflict, provider exists but wasn't in list (soft-deleted?)
-          // Try to find by name and update, or log the error
-          console.warn(`Provider ${provider} may already exist (409), trying alternate approach`);
-          const retryProviders = await requestUrl({
-            url: `${this.baseUrl}/v1/providers/`,
-            headers: this.getHeaders(),
-          });
-          const retryExisting = (retryProviders.json as Array<{ id: string; name: string; provider_type: string }>)
-            .find(p => p.provider_type === provider || p.name === provider);
-          if (retryExisting) {
-            await requestUrl({
-              url: `${this.baseUrl}/v1/providers/${retryExisting.id}`,
-              method: 'PATCH',
-              headers: this.getHeaders(),
-              body: JSON.stringify({ api_key: apiKey }),
-            });
-            console.log(`Updated ${provider} provider on retry`);
-          } else {
-            // Provider exists in DB but not visible - database issue
-            console.error(`Provider ${provider} exists in database but not retrievable. May need to reset Letta.`);
-          }
-        }
+      console.log(`Created ${provider} provider`);
+    } catch (createError) {
+      if (!(createError instanceof LettaError) || createError.status !== 409) {
+        throw createError;
       }
-    } catch (error) {
-      console.warn(`Failed to update provider key:`, error);
+      // 409 conflict: provider exists but wasn't in list (soft-deleted?)
+      // Try to find by name and update
+      console.warn(`Provider ${provider} already exists (409), trying alternate approach`);
+      const retryProviders = await this.request('/v1/providers', 'list providers');
+      const retryExisting = (retryProviders.json as Array<{ id: string; name: string; provider_type: string }>)
+        .find(p => p.provider_type === provider || p.name === provider);
+      if (!retryExisting) {
+        // Provider exists in DB but not visible - database issue
+        throw new LettaError(
+          `Provider ${provider} exists in the Letta database but can't be retrieved. Letta may need a reset.`,
+          409,
+          'provider'
+        );
+      }
+      await this.request(`/v1/providers/${retryExisting.id}`, `update ${provider} provider`, {
+        method: 'PATCH',
+        body: { api_key: apiKey },
+      }, { idempotent: true });
+      console.log(`Updated ${provider} provider on retry`);
     }
   }
 
@@ -186,14 +284,14 @@ export class LettaService {
   ): Promise<string> {
     const persona = customPersona || ROLE_PERSONAS[role] || ROLE_PERSONAS.custom;
 
-    // Extract provider from model string (e.g., "anthropic/claude..." -> "anthropic")
-    const providerName = model.includes('/') ? model.split('/')[0] : null;
+    // Older servers reject the sleeptime flag, so only ask for it where it exists
+    await this.getServerInfo().catch(() => null);
 
     const agentConfig: Record<string, unknown> = {
       name: name,
       model: model,
       embedding: embedding,
-      enable_sleeptime: true,
+      enable_sleeptime: this.supports('sleeptime'),
       memory_blocks: [
         {
           label: 'persona',
@@ -206,91 +304,233 @@ export class LettaService {
       ]
     };
 
-    // For non-letta models, specify the provider name for API key resolution
-    if (providerName && providerName !== 'letta' && providerName !== 'ollama') {
-      // Strip provider prefix from model name for the API (e.g., "anthropic/claude-sonnet" -> "claude-sonnet")
-      const modelName = model.includes('/') ? model.split('/').slice(1).join('/') : model;
-      agentConfig.llm_config = {
-        model: modelName,
-        model_endpoint_type: providerName,
-        provider_name: providerName,
-        context_window: 200000,  // Claude models have large context
-      };
+    const llmConfig = this.buildLlmConfig(model);
+    if (llmConfig) {
+      agentConfig.llm_config = llmConfig;
     }
 
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/`,
+    const response = await this.request('/v1/agents', 'create agent', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(agentConfig)
+      body: agentConfig,
     });
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to create agent: ${response.text}`);
+    return response.json.id;
+  }
+
+  /**
+   * Create an agent for one-off requests, which forgets each message once it has replied
+   */
+  async createStatelessAgent(name: string, persona: string, model: string, embedding: string): Promise<string> {
+    const agentConfig: Record<string, unknown> = {
+      name: name,
+      model: model,
+      embedding: embedding,
+      message_buffer_autoclear: true,
+      memory_blocks: [
+        {
+          label: 'persona',
+          value: persona
+        }
+      ]
+    };
+
+    const llmConfig = this.buildLlmConfig(model);
+    if (llmConfig) {
+      agentConfig.llm_config = llmConfig;
     }
 
+    const response = await this.request('/v1/agents', 'create agent', {
+      method: 'POST',
+      body: agentConfig,
+    });
+
     return response.json.id;
   }
 
+  /**
+   * Switch an existing agent to another model, keeping its memory
+   */
+  async updateAgentModel(agentId: string, model: string): Promise<void> {
+    const update: Record<string, unknown> = { model };
+    const llmConfig = this.buildLlmConfig(model);
+    if (llmConfig) {
+      update.llm_config = llmConfig;
+    }
+
+    await this.request(`/v1/agents/${agentId}`, 'change agent model', {
+      method: 'PATCH',
+      body: update,
+    }, { idempotent: true });
+  }
+
+  /**
+   * llm_config for a model handle, or undefined if Letta can resolve it alone
+   */
+  private buildLlmConfig(model: string): Record<string, unknown> | undefined {
+    // Extract provider from model string (e.g., "anthropic/claude..." -> "anthropic")
+    const providerName = model.includes('/') ? model.split('/')[0] : null;
+
+    // For non-letta models, specify the provider name for API key resolution
+    if (!providerName || providerName === 'letta' || providerName === 'ollama') {
+      return undefined;
+    }
+
+    // Strip provider prefix from model name for the API (e.g., "anthropic/claude-sonnet" -> "claude-sonnet")
+    const modelName = model.split('/').slice(1).join('/');
+    return {
+      model: modelName,
+      model_endpoint_type: providerName,
+      provider_name: providerName,
+      context_window: 200000,  // Claude models have large context
+    };
+  }
+
   /**
    * Send a message to the therapist agent and get a response
    */
-  async sendMessage(agentId: string, content: string): Promise<string> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/messages`,
+  async sendMessage(agentId: string, content: string): Promise<AgentResponse> {
+    const response = await this.request(`/v1/agents/${agentId}/messages`, 'send message', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         messages: [
           {
             role: 'user',
             content: content
           }
         ]
-      })
-    });
+      },
+    }, { timeoutMs: MESSAGE_TIMEOUT_MS });
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to send message: ${response.text}`);
+    // Letta returns multiple message types: reasoning, tool calls and returns,
+    // and the assistant_message that holds the actual reply
+    return parseAgentMessages(response.json.messages ?? [], response.json.usage);
+  }
+
+  /**
+   * Send a message and stream the assistant's response as it is generated
+   * Uses fetch because requestUrl cannot read a response body incrementally.
+   * onText receives the full text accumulated so far on every new token.
+   */
+  async sendMessageStream(
+    agentId: string,
+    content: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    const path = `/v1/agents/${agentId}/messages/stream`;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${endpointPath(path)}`, {
+        method: 'POST',
+        headers: {
+          ...this.getHeaders(),
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({
+          messages: [
+            {
+              role: 'user',
+              content: content
+            }
+          ],
+          stream_tokens: true,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LettaNetworkError(
+        `Failed to stream message: ${error instanceof Error ? error.message : 'network error'}`,
+        'agent'
+      );
     }
 
-    const data = response.json;
+    if (!response.ok || !response.body) {
+      throw errorFromResponse(
+        response.status,
+        await response.text(),
+        'stream message',
+        path,
+        response.headers.get('retry-after') ?? undefined
+      );
+    }
 
-    // Extract the assistant's response from the messages
-    // Letta returns multiple message types, we want the assistant_message
-    for (const msg of data.messages) {
-      if (msg.message_type === 'assistant_message') {
-        return msg.content;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let lastAssistantId: unknown;
+    // Every streamed chunk, so reasoning and tool calls can be rebuilt at the end
+    const chunks: Array<Record<string, unknown>> = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      // The server may close without a blank line after the last event
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const { events, rest } = splitSSEEvents(buffer, done);
+      buffer = rest;
+
+      for (const event of events) {
+        let chunk: Record<string, unknown> | null = null;
+        try {
+          chunk = JSON.parse(event);
+          chunks.push(chunk!);
+        } catch {
+          // [DONE] and keep-alives
+        }
+        const delta = getAssistantDelta(event);
+        if (delta) {
+          // Tokens of one message share its id - a new id is a new message
+          const id = chunk?.id;
+          if (text && id !== undefined && id !== lastAssistantId) {
+            text += '\n\n';
+          }
+          lastAssistantId = id;
+          text += delta;
+          onText(text);
+        }
       }
+
+      if (done) break;
     }
 
-    // Fallback: look for any content
-    const lastMessage = data.messages[data.messages.length - 1];
-    return lastMessage?.content || '';
+    return { ...parseAgentMessages(chunks), text };
+  }
+
+  /**
+   * The agent's recent conversation, oldest first
+   * Only the newest messages are asked for; servers that ignore the order keep their own.
+   */
+  async getMessages(agentId: string, limit: number = 50): Promise<HistoryMessage[]> {
+    const response = await this.request(
+      `/v1/agents/${agentId}/messages?limit=${limit}&order=desc`,
+      'get messages'
+    );
+    const messages = Array.isArray(response.json) ? response.json : response.json.messages ?? [];
+    return parseHistoryMessages(messages);
   }
 
   /**
    * Get agent details
+   * Returns null if the agent no longer exists; other failures throw
    */
-  async getAgent(agentId: string): Promise<{ id: string; name: string; model: string } | null> {
+  async getAgent(agentId: string): Promise<AgentDetails | null> {
     try {
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/agents/${agentId}`,
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return null;
-      }
-
+      const response = await this.request(`/v1/agents/${agentId}`, 'get agent');
       const data = response.json;
+      const llm = data.llm_config;
       return {
         id: data.id,
         name: data.name,
-        model: data.model || data.llm_config?.model || 'unknown',
+        model: data.model || llm?.model || 'unknown',
+        embedding: embeddingHandle(data),
+        llmConfig: llm,
       };
-    } catch {
-      return null;
+    } catch (error) {
+      if (error instanceof LettaNotFoundError) {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -298,15 +538,7 @@ export class LettaService {
    * Delete an agent from Letta
    */
   async deleteAgent(agentId: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}`,
-      method: 'DELETE',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200 && response.status !== 204) {
-      throw new Error(`Failed to delete agent: ${response.text}`);
-    }
+    await this.request(`/v1/agents/${agentId}`, 'delete agent', { method: 'DELETE' });
   }
 
   /**
@@ -314,88 +546,153 @@ export class LettaService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/health`,
-      });
-      return response.status === 200;
+      await this.getServerInfo(true);
+      return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Read the server version and work out what it supports
+   * Cached until the URL changes; refresh re-reads it, e.g. after a server upgrade.
+   */
+  async getServerInfo(refresh: boolean = false): Promise<ServerCapabilities> {
+    if (this.capabilities && !refresh) {
+      return this.capabilities;
+    }
+    const response = await this.request('/v1/health', 'check server health', {}, { idempotent: false, timeoutMs: 5000 });
+    const version = typeof response.json?.version === 'string' ? response.json.version : null;
+    this.capabilities = capabilitiesFor(version);
+    return this.capabilities;
+  }
+
+  /**
+   * Whether the server supports a feature - assumed yes until its version is known
+   */
+  supports(feature: ServerFeature): boolean {
+    return this.capabilities ? this.capabilities.features[feature] : true;
+  }
+
+  /**
+   * Throw a clear error instead of letting an unsupported request fail with a 404
+   */
+  private async requireFeature(feature: ServerFeature, resource: LettaResource): Promise<void> {
+    let capabilities: ServerCapabilities;
+    try {
+      capabilities = await this.getServerInfo();
+    } catch {
+      return; // Unreachable - let the request itself report that
+    }
+    if (!capabilities.features[feature]) {
+      const version = capabilities.version ? ` (this one is ${capabilities.version})` : '';
+      throw new LettaUnsupportedError(
+        `Using ${FEATURE_NAMES[feature]} needs a newer Letta server${version} — update Letta to use it`,
+        feature,
+        resource
+      );
+    }
+  }
+
   /**
    * Create an archive for storing vault content
    */
   async createArchive(name: string, embedding: string = 'letta/letta-free'): Promise<string> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/archives/`,
+    await this.requireFeature('archives', 'archive');
+    const response = await this.request('/v1/archives', 'create archive', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         name: name,
         description: 'Obsidian vault content for therapist context',
         embedding: embedding,
-      }),
+      },
     });
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to create archive: ${response.text}`);
-    }
-
     return response.json.id;
   }
 
   /**
    * List existing archives
    */
-  async listArchives(): Promise<Array<{ id: string; name: string }>> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/archives/`,
-      headers: this.getHeaders(),
-    });
+  async listArchives(): Promise<Array<{ id: string; name: string; embedding: string }>> {
+    await this.requireFeature('archives', 'archive');
+    const response = await this.request('/v1/archives', 'list archives');
 
-    if (response.status !== 200) {
-      throw new Error('Failed to list archives');
-    }
-
-    return response.json.map((a: { id: string; name: string }) => ({
+    return response.json.map((a: { id: string; name: string; embedding_config?: { handle?: string } }) => ({
       id: a.id,
       name: a.name,
+      embedding: embeddingHandle(a),
     }));
   }
 
+  /**
+   * Get an archive, or null if it no longer exists
+   */
+  async getArchive(archiveId: string): Promise<{ id: string; name: string; embedding: string } | null> {
+    try {
+      const response = await this.request(`/v1/archives/${archiveId}`, 'get archive');
+      const data = response.json;
+      return { id: data.id, name: data.name, embedding: embeddingHandle(data) };
+    } catch (error) {
+      if (error instanceof LettaNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an archive and its passages - agents lose access to it
+   */
+  async deleteArchive(archiveId: string): Promise<void> {
+    await this.request(`/v1/archives/${archiveId}`, 'delete archive', {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * Add a passage (text chunk) to an archive
    */
   async addPassage(archiveId: string, text: string, metadata: Record<string, string> = {}): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/archives/${archiveId}/passages/`,
+    await this.request(`/v1/archives/${archiveId}/passages`, 'add passage', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         text: text,
         metadata: metadata,
-      }),
+      },
     });
+  }
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to add passage: ${response.text}`);
+  /**
+   * Add passages one by one - the server stores each as it arrives
+   * A passage that fails is skipped and counted; failures every later passage
+   * would hit too (a rejected key, the archive gone) are thrown.
+   */
+  async addPassages(archiveId: string, passages: Passage[]): Promise<number> {
+    let failed = 0;
+    for (const passage of passages) {
+      try {
+        await this.addPassage(archiveId, passage.text, passage.metadata);
+      } catch (error) {
+        if (error instanceof LettaAuthError || error instanceof LettaNotFoundError) {
+          throw error;
+        }
+        console.warn(`Failed to add a passage of ${passage.metadata?.source ?? 'the vault'}:`, error);
+        failed++;
+      }
     }
+    return failed;
   }
 
   /**
    * Attach an archive to an agent for RAG access
    */
   async attachArchive(agentId: string, archiveId: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/archives/attach/${archiveId}/`,
+    await this.requireFeature('archives', 'archive');
+    // Attaching twice is harmless, so it is safe to retry
+    await this.request(`/v1/agents/${agentId}/archives/attach/${archiveId}/`, 'attach archive', {
       method: 'POST',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to attach archive: ${response.text}`);
-    }
+    }, { idempotent: true });
   }
 
   /**
@@ -403,24 +700,22 @@ export class LettaService {
    */
   async clearArchive(archiveId: string): Promise<void> {
     // Get all passages first
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/archives/${archiveId}/passages/`,
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      return; // Archive might be empty
+    let passages: Array<{ id: string }>;
+    try {
+      const response = await this.request(`/v1/archives/${archiveId}/passages`, 'list passages');
+      passages = response.json;
+    } catch (error) {
+      if (error instanceof LettaNotFoundError) {
+        return; // Archive might be empty
+      }
+      throw error;
     }
 
-    const passages = response.json as Array<{ id: string }>;
-
     // Delete each passage
     for (const passage of passages) {
       try {
-        await requestUrl({
-          url: `${this.baseUrl}/v1/archives/${archiveId}/passages/${passage.id}/`,
+        await this.request(`/v1/archives/${archiveId}/passages/${passage.id}/`, 'delete passage', {
           method: 'DELETE',
-          headers: this.getHeaders(),
         });
       } catch {
         // Continue even if one fails
@@ -431,15 +726,8 @@ export class LettaService {
   /**
    * Get agent memory blocks (persona, human)
    */
-  async getMemoryBlocks(agentId: string): Promise<Array<{ id: string; label: string; value: string }>> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/core-memory/blocks`,
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error('Failed to get memory blocks');
-    }
+  async getMemoryBlocks(agentId: string): Promise<MemoryBlock[]> {
+    const response = await this.request(`/v1/agents/${agentId}/core-memory/blocks`, 'get memory blocks');
 
     return response.json.map((b: { id: string; label: string; value: string }) => ({
       id: b.id,
@@ -452,16 +740,10 @@ export class LettaService {
    * Update a memory block's value by label
    */
   async updateMemoryBlock(agentId: string, blockLabel: string, value: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/core-memory/blocks/${blockLabel}`,
+    await this.request(`/v1/agents/${agentId}/core-memory/blocks/${blockLabel}`, 'update memory block', {
       method: 'PATCH',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ value }),
-    });
-
-    if (response.status !== 200) {
-      throw new Error('Failed to update memory block');
-    }
+      body: { value },
+    }, { idempotent: true });
   }
 
   /**
@@ -469,29 +751,17 @@ export class LettaService {
    */
   async createMemoryBlock(agentId: string, label: string, value: string): Promise<string> {
     // First create the block
-    const createResponse = await requestUrl({
-      url: `${this.baseUrl}/v1/blocks/`,
+    const createResponse = await this.request('/v1/blocks', 'create memory block', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ label, value }),
+      body: { label, value },
     });
 
-    if (createResponse.status !== 200) {
-      throw new Error('Failed to create memory block');
-    }
-
     const blockId = createResponse.json.id;
 
     // Then attach it to the agent
-    const attachResponse = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/core-memory/blocks/attach/${blockId}`,
+    await this.request(`/v1/agents/${agentId}/core-memory/blocks/attach/${blockId}`, 'attach memory block to agent', {
       method: 'PATCH',
-      headers: this.getHeaders(),
-    });
-
-    if (attachResponse.status !== 200) {
-      throw new Error('Failed to attach memory block to agent');
-    }
+    }, { idempotent: true });
 
     return blockId;
   }
@@ -500,29 +770,16 @@ export class LettaService {
    * Delete a memory block from the agent (detach it)
    */
   async deleteMemoryBlock(agentId: string, blockId: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/core-memory/blocks/detach/${blockId}`,
+    await this.request(`/v1/agents/${agentId}/core-memory/blocks/detach/${blockId}`, 'delete memory block', {
       method: 'PATCH',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error('Failed to delete memory block');
-    }
+    }, { idempotent: true });
   }
 
   /**
    * Get archival memories (long-term memories stored by the agent)
    */
-  async getArchivalMemory(agentId: string, limit: number = 100): Promise<Array<{ id: string; text: string; created_at: string }>> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/archival-memory?limit=${limit}`,
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error('Failed to get archival memory');
-    }
+  async getArchivalMemory(agentId: string, limit: number = 100): Promise<ArchivalMemory[]> {
+    const response = await this.request(`/v1/agents/${agentId}/archival-memory?limit=${limit}`, 'get archival memory');
 
     return response.json.map((m: { id: string; text: string; created_at: string }) => ({
       id: m.id,
@@ -535,30 +792,36 @@ export class LettaService {
    * Delete an archival memory entry
    */
   async deleteArchivalMemory(agentId: string, memoryId: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/archival-memory/${memoryId}`,
+    await this.request(`/v1/agents/${agentId}/archival-memory/${memoryId}`, 'delete archival memory', {
       method: 'DELETE',
-      headers: this.getHeaders(),
     });
-
-    if (response.status !== 200 && response.status !== 204) {
-      throw new Error('Failed to delete archival memory');
-    }
   }
 
   /**
    * Add an archival memory entry
    */
   async addArchivalMemory(agentId: string, text: string): Promise<void> {
-    const response = await requestUrl({
-      url: `${this.baseUrl}/v1/agents/${agentId}/archival-memory`,
+    await this.request(`/v1/agents/${agentId}/archival-memory`, 'add archival memory', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ text }),
+      body: { text },
     });
-
-    if (response.status !== 200) {
-      throw new Error('Failed to add archival memory');
-    }
   }
 }
+
+/**
+ * Embedding handle of an agent or archive, e.g. "openai/text-embedding-3-small"
+ */
+function embeddingHandle(data: {
+  embedding?: string;
+  embedding_config?: { handle?: string; embedding_endpoint_type?: string; embedding_model?: string };
+}): string {
+  const config = data.embedding_config;
+  return data.embedding || config?.handle
+    || (config?.embedding_endpoint_type && config?.embedding_model
+      ? `${config.embedding_endpoint_type}/${config.embedding_model}`
+      : 'letta/letta-free');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
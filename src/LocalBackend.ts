@@ -0,0 +1,455 @@
+import { App, normalizePath, requestUrl } from 'obsidian';
+import { ROLE_PERSONAS } from './LettaService';
+import { splitSSEEvents, getChatCompletionDelta, getChatCompletionUsage } from './sseParser';
+import { buildSystemPrompt, extractRememberLines, rankByKeywords, ChatMessage } from './localMemory';
+import type { TherapistBackend, MemoryBlock, ArchivalMemory, HistoryMessage, Passage } from './TherapistBackend';
+import { parseUsage, AgentResponse, TokenUsage } from './agentResponse';
+import { errorFromResponse, LettaNetworkError, LettaNotFoundError } from './errors';
+
+export const LOCAL_AGENT_ID = 'local';
+
+const HISTORY_LIMIT = 20; // Messages of conversation kept as context
+const RECALL_LIMIT = 5; // Archival memories / passages added to the prompt
+
+export interface LocalBackendOptions {
+  url: string;
+  model: string;
+  apiKey: string;
+  folder: string;
+}
+
+interface StoredArchive {
+  id: string;
+  name: string;
+  agents: string[];
+  passages: Array<{ id: string; text: string; metadata: Record<string, string> }>;
+}
+
+/**
+ * Backend that talks directly to an OpenAI-compatible chat endpoint
+ * (Ollama, llama.cpp, LM Studio...) and keeps all memory as files in the vault:
+ *
+ *   <folder>/<agentId>/blocks/<label>.md   core memory blocks
+ *   <folder>/<agentId>/archival.json       archival memories
+ *   <folder>/<agentId>/history.json        recent conversation
+ *   <folder>/archives/<archiveId>.json     indexed vault passages
+ */
+export class LocalBackend implements TherapistBackend {
+  private app: App;
+  private options: LocalBackendOptions;
+
+  constructor(app: App, options: LocalBackendOptions) {
+    this.app = app;
+    this.options = options;
+  }
+
+  setOptions(options: Partial<LocalBackendOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Folder holding the memory files, so callers can keep it out of indexing
+   */
+  getFolder(): string {
+    return normalizePath(this.options.folder);
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+    return headers;
+  }
+
+  private get endpoint(): string {
+    return `${this.options.url.replace(/\/+$/, '')}/v1/chat/completions`;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await requestUrl({
+        url: `${this.options.url.replace(/\/+$/, '')}/v1/models`,
+        headers: this.getHeaders(),
+      });
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  // ─── Chat ──────────────────────────────────────────────────────
+
+  async sendMessage(agentId: string, content: string): Promise<AgentResponse> {
+    const messages = await this.buildMessages(agentId, content);
+    const json = await this.postCompletion(messages);
+    const reply = json?.choices?.[0]?.message?.content ?? '';
+    return this.completeExchange(agentId, content, reply, parseUsage(json?.usage));
+  }
+
+  /**
+   * A one-off request, answered without the agent's memory and kept out of its history
+   */
+  async complete(content: string): Promise<AgentResponse> {
+    const json = await this.postCompletion([{ role: 'user', content }]);
+    const text = json?.choices?.[0]?.message?.content ?? '';
+    return { text, reasoning: [], toolCalls: [], usage: parseUsage(json?.usage) };
+  }
+
+  /**
+   * Body of a chat completion
+   * Failures use the Letta error types, so transient ones are queued and retried the same way.
+   */
+  private async postCompletion(messages: ChatMessage[]) {
+    let response;
+    try {
+      response = await requestUrl({
+        url: this.endpoint,
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.options.model,
+          messages,
+        }),
+        throw: false,
+      });
+    } catch (error) {
+      throw new LettaNetworkError(`Failed to send message: ${error instanceof Error ? error.message : 'network error'}`);
+    }
+
+    if (response.status !== 200) {
+      throw errorFromResponse(response.status, response.text, 'send message', '', response.headers['retry-after']);
+    }
+    return response.json;
+  }
+
+  async sendMessageStream(
+    agentId: string,
+    content: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    const messages = await this.buildMessages(agentId, content);
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.options.model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LettaNetworkError(`Failed to stream message: ${error instanceof Error ? error.message : 'network error'}`);
+    }
+
+    if (!response.ok || !response.body) {
+      throw errorFromResponse(
+        response.status,
+        await response.text(),
+        'stream message',
+        '',
+        response.headers.get('retry-after') ?? undefined
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      // The server may close without a blank line after the last event
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const { events, rest } = splitSSEEvents(buffer, done);
+      buffer = rest;
+
+      for (const event of events) {
+        usage = parseUsage(getChatCompletionUsage(event)) ?? usage;
+        const delta = getChatCompletionDelta(event);
+        if (delta) {
+          text += delta;
+          // Hide memory lines while they are still being written
+          onText(extractRememberLines(text).text);
+        }
+      }
+
+      if (done) break;
+    }
+
+    return this.completeExchange(agentId, content, text, usage);
+  }
+
+  private async buildMessages(agentId: string, content: string): Promise<ChatMessage[]> {
+    const [blocks, archival, passages, history] = await Promise.all([
+      this.getMemoryBlocks(agentId),
+      this.readArchival(agentId),
+      this.readAttachedPassages(agentId),
+      this.readJson<ChatMessage[]>(this.agentPath(agentId, 'history.json'), []),
+    ]);
+
+    const recalled = rankByKeywords(
+      content,
+      [...archival.map(m => m.text), ...passages],
+      RECALL_LIMIT
+    );
+
+    return [
+      { role: 'system', content: buildSystemPrompt(blocks, recalled) },
+      ...history,
+      { role: 'user', content },
+    ];
+  }
+
+  /**
+   * Store the exchange and any facts the model asked to remember
+   * Remembered facts are reported the way Letta reports its own memory inserts.
+   */
+  private async completeExchange(
+    agentId: string,
+    content: string,
+    reply: string,
+    usage?: TokenUsage
+  ): Promise<AgentResponse> {
+    const { text, memories } = extractRememberLines(reply);
+
+    const toolCalls = [];
+    for (const memory of memories) {
+      await this.addArchivalMemory(agentId, memory);
+      toolCalls.push({
+        id: this.generateId(),
+        name: 'archival_memory_insert',
+        arguments: JSON.stringify({ content: memory }),
+        status: 'success',
+      });
+    }
+
+    const historyPath = this.agentPath(agentId, 'history.json');
+    const history = await this.readJson<ChatMessage[]>(historyPath, []);
+    history.push({ role: 'user', content }, { role: 'assistant', content: text });
+    await this.writeJson(historyPath, history.slice(-HISTORY_LIMIT));
+
+    return { text, reasoning: [], toolCalls, usage };
+  }
+
+  /**
+   * The conversation kept as context - local history has no timestamps
+   */
+  async getMessages(agentId: string, limit: number = 50): Promise<HistoryMessage[]> {
+    const history = await this.readJson<ChatMessage[]>(this.agentPath(agentId, 'history.json'), []);
+    return history
+      .filter(m => m.role !== 'system')
+      .slice(-limit)
+      .map(m => ({ role: m.role as HistoryMessage['role'], content: m.content }));
+  }
+
+  // ─── Core memory ───────────────────────────────────────────────
+
+  async getMemoryBlocks(agentId: string): Promise<MemoryBlock[]> {
+    const blocksFolder = this.agentPath(agentId, 'blocks');
+
+    if (!(await this.app.vault.adapter.exists(blocksFolder))) {
+      // First use: seed the same blocks a new Letta agent starts with
+      await this.writeBlock(agentId, 'persona', ROLE_PERSONAS.therapist);
+      await this.writeBlock(agentId, 'human', '[Learning about you through our sessions...]');
+    }
+
+    const listing = await this.app.vault.adapter.list(blocksFolder);
+    const blocks: MemoryBlock[] = [];
+    for (const filePath of listing.files) {
+      if (!filePath.endsWith('.md')) continue;
+      const label = filePath.split('/').pop()!.replace(/\.md$/, '');
+      blocks.push({
+        id: label,
+        label,
+        value: await this.app.vault.adapter.read(filePath),
+      });
+    }
+
+    // Persona and human first, like Letta
+    const order = (label: string) => label === 'persona' ? 0 : label === 'human' ? 1 : 2;
+    return blocks.sort((a, b) => order(a.label) - order(b.label) || a.label.localeCompare(b.label));
+  }
+
+  async updateMemoryBlock(agentId: string, blockLabel: string, value: string): Promise<void> {
+    // Like Letta, only blocks that exist can be updated - reading them seeds a new agent's
+    const blocks = await this.getMemoryBlocks(agentId);
+    if (!blocks.some(b => b.label === blockLabel)) {
+      throw new LettaNotFoundError(`Memory block ${blockLabel} not found`, 404, 'block');
+    }
+    await this.writeBlock(agentId, blockLabel, value);
+  }
+
+  async createMemoryBlock(agentId: string, label: string, value: string): Promise<string> {
+    if (!/^[\w-]+$/.test(label)) {
+      throw new Error('Block labels may only contain letters, numbers, - and _');
+    }
+    await this.writeBlock(agentId, label, value);
+    return label;
+  }
+
+  async deleteMemoryBlock(agentId: string, blockId: string): Promise<void> {
+    const filePath = this.agentPath(agentId, `blocks/${blockId}.md`);
+    if (await this.app.vault.adapter.exists(filePath)) {
+      await this.app.vault.adapter.remove(filePath);
+    }
+  }
+
+  private async writeBlock(agentId: string, label: string, value: string) {
+    const filePath = this.agentPath(agentId, `blocks/${label}.md`);
+    await this.ensureFolder(filePath);
+    await this.app.vault.adapter.write(filePath, value);
+  }
+
+  // ─── Archival memory ───────────────────────────────────────────
+
+  async getArchivalMemory(agentId: string, limit: number = 100): Promise<ArchivalMemory[]> {
+    const memories = await this.readArchival(agentId);
+    return memories.slice(-limit);
+  }
+
+  async addArchivalMemory(agentId: string, text: string): Promise<void> {
+    const memories = await this.readArchival(agentId);
+    memories.push({
+      id: this.generateId(),
+      text,
+      created_at: new Date().toISOString(),
+    });
+    await this.writeJson(this.agentPath(agentId, 'archival.json'), memories);
+  }
+
+  async deleteArchivalMemory(agentId: string, memoryId: string): Promise<void> {
+    const memories = await this.readArchival(agentId);
+    await this.writeJson(
+      this.agentPath(agentId, 'archival.json'),
+      memories.filter(m => m.id !== memoryId)
+    );
+  }
+
+  private readArchival(agentId: string): Promise<ArchivalMemory[]> {
+    return this.readJson<ArchivalMemory[]>(this.agentPath(agentId, 'archival.json'), []);
+  }
+
+  // ─── Archives ──────────────────────────────────────────────────
+
+  async listArchives(): Promise<Array<{ id: string; name: string }>> {
+    const archives = await this.readArchives();
+    return archives.map(a => ({ id: a.id, name: a.name }));
+  }
+
+  async createArchive(name: string): Promise<string> {
+    const archive: StoredArchive = { id: this.generateId(), name, agents: [], passages: [] };
+    await this.writeArchive(archive);
+    return archive.id;
+  }
+
+  async attachArchive(agentId: string, archiveId: string): Promise<void> {
+    const archive = await this.readArchive(archiveId);
+    if (!archive.agents.includes(agentId)) {
+      archive.agents.push(agentId);
+      await this.writeArchive(archive);
+    }
+  }
+
+  async addPassages(archiveId: string, passages: Passage[]): Promise<number> {
+    // The archive is one file, so the whole batch goes in with a single write
+    const archive = await this.readArchive(archiveId);
+    for (const { text, metadata = {} } of passages) {
+      archive.passages.push({ id: this.generateId(), text, metadata });
+    }
+    await this.writeArchive(archive);
+    return 0;
+  }
+
+  async clearArchive(archiveId: string): Promise<void> {
+    const archive = await this.readArchive(archiveId);
+    archive.passages = [];
+    await this.writeArchive(archive);
+  }
+
+  private async readAttachedPassages(agentId: string): Promise<string[]> {
+    const archives = await this.readArchives();
+    const passages: string[] = [];
+    for (const archive of archives) {
+      if (archive.agents.includes(agentId)) {
+        passages.push(...archive.passages.map(p => p.text));
+      }
+    }
+    return passages;
+  }
+
+  private async readArchives(): Promise<StoredArchive[]> {
+    const folder = normalizePath(`${this.options.folder}/archives`);
+    if (!(await this.app.vault.adapter.exists(folder))) {
+      return [];
+    }
+    const listing = await this.app.vault.adapter.list(folder);
+    const archives: StoredArchive[] = [];
+    for (const filePath of listing.files) {
+      if (!filePath.endsWith('.json')) continue;
+      const archive = await this.readJson<StoredArchive | null>(filePath, null);
+      if (archive) archives.push(archive);
+    }
+    return archives;
+  }
+
+  private async readArchive(archiveId: string): Promise<StoredArchive> {
+    const archive = await this.readJson<StoredArchive | null>(this.archivePath(archiveId), null);
+    if (!archive) {
+      throw new LettaNotFoundError(`Archive ${archiveId} not found`, 404, 'archive');
+    }
+    return archive;
+  }
+
+  private writeArchive(archive: StoredArchive): Promise<void> {
+    return this.writeJson(this.archivePath(archive.id), archive);
+  }
+
+  private archivePath(archiveId: string): string {
+    return normalizePath(`${this.options.folder}/archives/${archiveId}.json`);
+  }
+
+  // ─── Files ─────────────────────────────────────────────────────
+
+  private agentPath(agentId: string, file: string): string {
+    return normalizePath(`${this.options.folder}/${agentId}/${file}`);
+  }
+
+  private async readJson<T>(filePath: string, fallback: T): Promise<T> {
+    if (!(await this.app.vault.adapter.exists(filePath))) {
+      return fallback;
+    }
+    try {
+      return JSON.parse(await this.app.vault.adapter.read(filePath));
+    } catch (error) {
+      console.warn(`Could not parse ${filePath}:`, error);
+      return fallback;
+    }
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    await this.ensureFolder(filePath);
+    await this.app.vault.adapter.write(filePath, JSON.stringify(data, null, 2));
+  }
+
+  private async ensureFolder(filePath: string) {
+    const folder = filePath.split('/').slice(0, -1).join('/');
+    if (folder && !(await this.app.vault.adapter.exists(folder))) {
+      await this.app.vault.adapter.mkdir(folder);
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
@@ -1,29 +1,17 @@
 import { Modal, App, Notice } from 'obsidian';
-import type { LettaService } from './LettaService';
-
-interface MemoryBlock {
-  id: string;
-  label: string;
-  value: string;
-}
-
-interface ArchivalMemory {
-  id: string;
-  text: string;
-  created_at: string;
-}
+import type { TherapistBackend, MemoryBlock, ArchivalMemory } from './TherapistBackend';
 
 export class MemoryViewerModal extends Modal {
-  private lettaService: LettaService;
+  private backend: TherapistBackend;
   private agentId: string;
   private activeTab: 'blocks' | 'archival' = 'blocks';
   private memoryBlocks: MemoryBlock[] = [];
   private archivalMemories: ArchivalMemory[] = [];
   private isLoading = true;
 
-  constructor(app: App, lettaService: LettaService, agentId: string) {
+  constructor(app: App, backend: TherapistBackend, agentId: string) {
     super(app);
-    this.lettaService = lettaService;
+    this.backend = backend;
     this.agentId = agentId;
   }
 
@@ -72,8 +60,8 @@ export class MemoryViewerModal extends Modal {
     this.isLoading = true;
     try {
       const [blocks, archival] = await Promise.all([
-        this.lettaService.getMemoryBlocks(this.agentId),
-        this.lettaService.getArchivalMemory(this.agentId, 100),
+        this.backend.getMemoryBlocks(this.agentId),
+        this.backend.getArchivalMemory(this.agentId, 100),
       ]);
       this.memoryBlocks = blocks;
       this.archivalMemories = archival;
@@ -191,7 +179,7 @@ export class MemoryViewerModal extends Modal {
       const deleteBtn = actionsEl.createEl('button', { text: 'Delete', cls: 'therapist-memory-delete' });
       deleteBtn.addEventListener('click', async () => {
         try {
-          await this.lettaService.deleteArchivalMemory(this.agentId, memory.id);
+          await this.backend.deleteArchivalMemory(this.agentId, memory.id);
           this.archivalMemories = this.archivalMemories.filter(m => m.id !== memory.id);
           this.renderContent();
           new Notice('Memory deleted');
@@ -207,7 +195,7 @@ export class MemoryViewerModal extends Modal {
     // Create a simple edit modal - use label for API call
     const editModal = new EditMemoryModal(this.app, block.value, async (newValue) => {
       try {
-        await this.lettaService.updateMemoryBlock(this.agentId, block.label, newValue);
+        await this.backend.updateMemoryBlock(this.agentId, block.label, newValue);
         block.value = newValue;
         this.renderContent();
         new Notice('Memory updated');
@@ -226,7 +214,7 @@ export class MemoryViewerModal extends Modal {
       // Now ask for value
       const valueModal = new EditMemoryModal(this.app, '', async (value) => {
         try {
-          await this.lettaService.createMemoryBlock(this.agentId, label.trim(), value);
+          await this.backend.createMemoryBlock(this.agentId, label.trim(), value);
           await this.loadData();
           this.renderContent();
           new Notice('Memory block created');
@@ -243,7 +231,7 @@ export class MemoryViewerModal extends Modal {
   private async deleteMemoryBlock(block: MemoryBlock) {
     if (confirm(`Delete "${block.label}" block? This cannot be undone.`)) {
       try {
-        await this.lettaService.deleteMemoryBlock(this.agentId, block.id);
+        await this.backend.deleteMemoryBlock(this.agentId, block.id);
         this.memoryBlocks = this.memoryBlocks.filter(b => b.id !== block.id);
         this.renderContent();
         new Notice('Memory block deleted');
@@ -258,7 +246,7 @@ export class MemoryViewerModal extends Modal {
     const editModal = new EditMemoryModal(this.app, '', async (text) => {
       if (!text.trim()) return;
       try {
-        await this.lettaService.addArchivalMemory(this.agentId, text);
+        await this.backend.addArchivalMemory(this.agentId, text);
         await this.loadData();
         this.renderContent();
         new Notice('Memory added');
@@ -277,8 +265,8 @@ export class MemoryViewerModal extends Modal {
       if (newText === memory.text) return; // No change
       try {
         // Delete old, add new (archival memories are immutable in Letta)
-        await this.lettaService.deleteArchivalMemory(this.agentId, memory.id);
-        await this.lettaService.addArchivalMemory(this.agentId, newText);
+        await this.backend.deleteArchivalMemory(this.agentId, memory.id);
+        await this.backend.addArchivalMemory(this.agentId, newText);
         await this.loadData();
         this.renderContent();
         new Notice('Memory updated');
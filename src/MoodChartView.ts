@@ -0,0 +1,138 @@
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import type TherapistPlugin from './main';
+import { MoodPoint, chartPoints, countEmotions } from './mood';
+
+export const VIEW_TYPE_MOOD = 'therapist-mood';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 140;
+const TOP_EMOTIONS = 8;
+const REFRESH_MS = 2000;
+
+const RANGES: Array<{ days: number; label: string }> = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' },
+  { days: 0, label: 'All time' },
+];
+
+// Sidebar chart of the mood readings in journal notes' frontmatter
+export class MoodChartView extends ItemView {
+  private plugin: TherapistPlugin;
+  private days = 30;
+  private bodyEl: HTMLElement | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: TherapistPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_MOOD;
+  }
+
+  getDisplayText(): string {
+    return 'Mood chart';
+  }
+
+  getIcon(): string {
+    return 'activity';
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('therapist-mood-view');
+
+    const toolbarEl = contentEl.createDiv({ cls: 'therapist-mood-toolbar' });
+    const rangeEl = toolbarEl.createEl('select', { cls: 'dropdown' });
+    for (const range of RANGES) {
+      rangeEl.createEl('option', { text: range.label, value: String(range.days) });
+    }
+    rangeEl.value = String(this.days);
+    rangeEl.addEventListener('change', () => {
+      this.days = parseInt(rangeEl.value, 10);
+      this.refresh();
+    });
+
+    this.bodyEl = contentEl.createDiv();
+
+    // New readings arrive through frontmatter edits
+    const refresh = debounce(() => this.refresh(), REFRESH_MS, true);
+    this.registerEvent(this.app.metadataCache.on('changed', () => refresh()));
+
+    this.refresh();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+    this.bodyEl = null;
+  }
+
+  refresh() {
+    if (!this.bodyEl) return;
+    this.bodyEl.empty();
+
+    const points = this.plugin.getMoodPoints(this.days);
+    if (points.length === 0) {
+      this.bodyEl.createDiv({
+        text: this.plugin.settings.trackMood
+          ? 'No mood readings yet - they are added as you write in a Journal section'
+          : 'No mood readings yet - turn on mood tracking in settings',
+        cls: 'therapist-memory-empty',
+      });
+      return;
+    }
+
+    this.renderChart(this.bodyEl, points);
+
+    const legendEl = this.bodyEl.createDiv({ cls: 'therapist-mood-legend' });
+    legendEl.createSpan({ text: '● Valence', cls: 'therapist-mood-valence' });
+    legendEl.createSpan({ text: '● Energy', cls: 'therapist-mood-energy' });
+    const sorted = points.slice().sort((a, b) => a.day.localeCompare(b.day));
+    legendEl.createSpan({
+      text: `${points.length} entries · ${sorted[0].day} to ${sorted[sorted.length - 1].day}`,
+      cls: 'therapist-mood-range',
+    });
+
+    const emotions = countEmotions(points).slice(0, TOP_EMOTIONS);
+    if (emotions.length > 0) {
+      this.bodyEl.createDiv({ text: 'Most frequent emotions', cls: 'therapist-insights-note' });
+      const listEl = this.bodyEl.createDiv({ cls: 'therapist-mood-emotions' });
+      for (const { emotion, count } of emotions) {
+        listEl.createSpan({ text: `${emotion} ${count}`, cls: 'therapist-mood-emotion' });
+      }
+    }
+  }
+
+  private renderChart(container: HTMLElement, points: MoodPoint[]) {
+    const svg = container.createSvg('svg', {
+      cls: 'therapist-mood-chart',
+      attr: { viewBox: `-6 -6 ${CHART_WIDTH + 12} ${CHART_HEIGHT + 12}` },
+    });
+
+    // Neutral valence runs through the middle
+    svg.createSvg('line', {
+      cls: 'therapist-mood-axis',
+      attr: { x1: 0, y1: CHART_HEIGHT / 2, x2: CHART_WIDTH, y2: CHART_HEIGHT / 2 },
+    });
+
+    for (const measure of ['energy', 'valence'] as const) {
+      const plotted = chartPoints(points, CHART_WIDTH, CHART_HEIGHT, measure);
+      svg.createSvg('polyline', {
+        cls: `therapist-mood-line therapist-mood-${measure}`,
+        attr: { points: plotted.map(p => `${p.x},${p.y}`).join(' ') },
+      });
+
+      for (const { x, y, point } of plotted) {
+        const dot = svg.createSvg('circle', {
+          cls: `therapist-mood-dot therapist-mood-${measure}`,
+          attr: { cx: x, cy: y, r: 3 },
+        });
+        const emotions = point.emotions.length > 0 ? ` · ${point.emotions.join(', ')}` : '';
+        dot.createSvg('title').textContent = `${point.day} · valence ${point.valence} · energy ${point.energy}${emotions}\n${point.path}`;
+        dot.addEventListener('click', () => this.plugin.openInsightNote(point.path));
+      }
+    }
+  }
+}
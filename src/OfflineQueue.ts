@@ -0,0 +1,112 @@
+import { LettaNotFoundError, LettaTimeoutError, isSafeToResend } from './errors';
+
+const MAX_QUEUED = 200; // Oldest messages are dropped beyond this
+
+export type QueuedMessageKind = 'observe' | 'conversation';
+
+export interface QueuedMessage {
+  id: string;
+  kind: QueuedMessageKind;
+  agentId: string;
+  notePath: string;
+  /** The prompt exactly as it would have been sent */
+  content: string;
+  /** What the user wrote, kept with the insight the reply becomes */
+  trigger?: string;
+  timestamp: number;
+}
+
+/**
+ * Whether a queued message can never be delivered - its agent is gone, or its
+ * replay timed out and the server may have it already
+ */
+function isUndeliverable(error: unknown): boolean {
+  return (error instanceof LettaNotFoundError && error.resource === 'agent')
+    || error instanceof LettaTimeoutError;
+}
+
+/**
+ * Durable outbox for messages that couldn't reach the server
+ * The items array is owned by the caller (it lives in plugin data), so the
+ * queue only mutates it in place and asks for a save after every change.
+ */
+export class OfflineQueue {
+  private items: QueuedMessage[];
+  private save: () => Promise<void>;
+  private flushing = false;
+
+  constructor(items: QueuedMessage[], save: () => Promise<void>) {
+    this.items = items;
+    this.save = save;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get isFlushing(): boolean {
+    return this.flushing;
+  }
+
+  async enqueue(message: Omit<QueuedMessage, 'id'>): Promise<void> {
+    this.items.push({
+      ...message,
+      id: `${message.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    });
+    if (this.items.length > MAX_QUEUED) {
+      this.items.splice(0, this.items.length - MAX_QUEUED);
+    }
+    await this.save();
+  }
+
+  /**
+   * Drop the messages for an agent that no longer exists
+   */
+  async removeAgent(agentId: string): Promise<void> {
+    const kept = this.items.filter(m => m.agentId !== agentId);
+    if (kept.length === this.items.length) return;
+    this.items.splice(0, this.items.length, ...kept);
+    await this.save();
+  }
+
+  /**
+   * Send queued messages oldest first
+   * Stops at the first transient failure so ordering is kept for the next attempt.
+   * Messages that can never be delivered (their agent was deleted, or the replay
+   * timed out) are dropped and passed to onDrop. Any other failure - a rejected
+   * API key, a refused request - keeps every message and is thrown.
+   * Returns how many were delivered.
+   */
+  async flush(
+    send: (message: QueuedMessage) => Promise<void>,
+    onDrop?: (message: QueuedMessage, error: unknown) => void
+  ): Promise<number> {
+    if (this.flushing) return 0;
+    this.flushing = true;
+
+    let delivered = 0;
+    try {
+      while (this.items.length > 0) {
+        const message = this.items[0];
+        try {
+          await send(message);
+          delivered++;
+        } catch (error) {
+          if (isSafeToResend(error)) {
+            break;
+          }
+          if (!isUndeliverable(error)) {
+            throw error;
+          }
+          onDrop?.(message, error);
+        }
+        this.items.shift();
+        await this.save();
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    return delivered;
+  }
+}
@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// Ask for the passphrase that protects the API keys
+export class PassphraseModal extends Modal {
+  private title: string;
+  private confirm: boolean;
+  private onSubmit: (passphrase: string) => Promise<string | null>;
+
+  /**
+   * onSubmit returns an error to show, or null to close
+   * With confirm, the passphrase has to be typed twice (when setting a new one).
+   */
+  constructor(app: App, title: string, confirm: boolean, onSubmit: (passphrase: string) => Promise<string | null>) {
+    super(app);
+    this.title = title;
+    this.confirm = confirm;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: this.title });
+
+    let passphrase = '';
+    let repeated = '';
+
+    new Setting(contentEl)
+      .setName('Passphrase')
+      .addText(text => {
+        text.inputEl.type = 'password';
+        text.onChange(value => { passphrase = value; });
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter' && !this.confirm) submit();
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    if (this.confirm) {
+      new Setting(contentEl)
+        .setName('Repeat passphrase')
+        .setDesc('There is no way to recover it - forgetting it means entering your API keys again')
+        .addText(text => {
+          text.inputEl.type = 'password';
+          text.onChange(value => { repeated = value; });
+        });
+    }
+
+    const errorEl = contentEl.createDiv({ cls: 'therapist-passphrase-error' });
+
+    const submit = async () => {
+      if (!passphrase) {
+        errorEl.setText('Enter a passphrase');
+        return;
+      }
+      if (this.confirm && passphrase !== repeated) {
+        errorEl.setText('Passphrases do not match');
+        return;
+      }
+      const error = await this.onSubmit(passphrase);
+      if (error) {
+        errorEl.setText(error);
+      } else {
+        this.close();
+      }
+    };
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.confirm ? 'Set passphrase' : 'Unlock')
+        .setCta()
+        .onClick(submit));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
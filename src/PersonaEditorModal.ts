@@ -0,0 +1,171 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import { PERSONA_TEMPLATES, getPersonaTemplate, parsePersonaFile, personaFileName } from './personas';
+import { describeError } from './errors';
+
+export interface PersonaEditorOptions {
+  title: string;
+  /** Persona the editor starts with */
+  initial: string;
+  /** Folder persona files are read from and saved to */
+  folder: string;
+  submitText: string;
+  onSubmit: (persona: string) => Promise<void>;
+}
+
+/**
+ * Edit a persona prompt, starting from a template or a persona file in the vault
+ */
+export class PersonaEditorModal extends Modal {
+  private options: PersonaEditorOptions;
+  private component = new Component();
+  private persona: string;
+  private showPreview = false;
+
+  constructor(app: App, options: PersonaEditorOptions) {
+    super(app);
+    this.options = options;
+    this.persona = options.initial;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('therapist-persona-modal');
+    this.component.load();
+
+    contentEl.createEl('h2', { text: this.options.title });
+
+    const files = this.getPersonaFiles();
+    let textarea: HTMLTextAreaElement;
+    let previewEl: HTMLElement;
+
+    new Setting(contentEl)
+      .setName('Start from')
+      .setDesc('Replaces the text below')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', 'Choose a template...');
+        for (const template of PERSONA_TEMPLATES) {
+          dropdown.addOption(`template:${template.id}`, `${template.name} — ${template.description}`);
+        }
+        for (const file of files) {
+          dropdown.addOption(`file:${file.path}`, `📄 ${file.basename}`);
+        }
+        dropdown.onChange(async (value) => {
+          if (!value) return;
+          const persona = await this.loadChoice(value);
+          if (persona === null) return;
+          this.persona = persona;
+          textarea.value = persona;
+          this.renderPreview(previewEl);
+        });
+      });
+
+    const editorEl = contentEl.createDiv({ cls: 'therapist-persona-editor' });
+    textarea = editorEl.createEl('textarea', { cls: 'therapist-persona-textarea' });
+    textarea.value = this.persona;
+    textarea.addEventListener('input', () => {
+      this.persona = textarea.value;
+    });
+    previewEl = editorEl.createDiv({ cls: 'therapist-persona-preview markdown-rendered' });
+    previewEl.hide();
+
+    let fileName = '';
+    new Setting(contentEl)
+      .setName('Save as persona file')
+      .setDesc(`Keep this persona in ${this.options.folder} to reuse or share it`)
+      .addText(text => text
+        .setPlaceholder('Persona name')
+        .onChange(value => { fileName = value.trim(); }))
+      .addButton(button => button
+        .setButtonText('Save to vault')
+        .onClick(async () => {
+          if (!fileName) {
+            new Notice('Give the persona a name first');
+            return;
+          }
+          try {
+            const file = await this.savePersonaFile(fileName);
+            new Notice(`Persona saved to ${file.path}`);
+          } catch (error) {
+            console.error('Failed to save persona:', error);
+            new Notice(`Failed to save persona: ${describeError(error)}`);
+          }
+        }));
+
+    const buttonsEl = contentEl.createDiv({ cls: 'therapist-persona-buttons' });
+
+    const previewBtn = buttonsEl.createEl('button', { text: 'Preview' });
+    previewBtn.addEventListener('click', () => {
+      this.showPreview = !this.showPreview;
+      previewBtn.setText(this.showPreview ? 'Edit' : 'Preview');
+      if (this.showPreview) {
+        this.renderPreview(previewEl);
+        textarea.hide();
+        previewEl.show();
+      } else {
+        previewEl.hide();
+        textarea.show();
+      }
+    });
+
+    const cancelBtn = buttonsEl.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const submitBtn = buttonsEl.createEl('button', { text: this.options.submitText, cls: 'mod-cta' });
+    submitBtn.addEventListener('click', async () => {
+      const persona = this.persona.trim();
+      if (!persona) {
+        new Notice('The persona is empty');
+        return;
+      }
+      submitBtn.setAttr('disabled', 'true');
+      try {
+        await this.options.onSubmit(persona);
+        this.close();
+      } catch (error) {
+        console.error('Failed to apply persona:', error);
+        new Notice(`Failed: ${describeError(error)}`);
+        submitBtn.removeAttribute('disabled');
+      }
+    });
+  }
+
+  onClose() {
+    this.component.unload();
+    this.contentEl.empty();
+  }
+
+  private getPersonaFiles(): TFile[] {
+    const folder = normalizePath(this.options.folder);
+    return this.app.vault.getMarkdownFiles()
+      .filter(f => f.path.startsWith(folder + '/'))
+      .sort((a, b) => a.basename.localeCompare(b.basename));
+  }
+
+  private async loadChoice(value: string): Promise<string | null> {
+    if (value.startsWith('template:')) {
+      return getPersonaTemplate(value.slice('template:'.length))?.persona ?? null;
+    }
+    const file = this.app.vault.getAbstractFileByPath(value.slice('file:'.length));
+    if (!(file instanceof TFile)) return null;
+    return parsePersonaFile(await this.app.vault.read(file));
+  }
+
+  private async savePersonaFile(name: string): Promise<TFile> {
+    const folder = normalizePath(this.options.folder);
+    if (!this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    const path = normalizePath(`${folder}/${personaFileName(name)}`);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, this.persona);
+      return existing;
+    }
+    return this.app.vault.create(path, this.persona);
+  }
+
+  private renderPreview(el: HTMLElement) {
+    el.empty();
+    MarkdownRenderer.render(this.app, this.persona, el, '', this.component);
+  }
+}
@@ -0,0 +1,93 @@
+import type { Editor } from 'obsidian';
+import { formatResponse } from './contentParser';
+
+/**
+ * Writes a therapist response into the editor while it is still being generated
+ * The whole blockquote is re-rendered on every update, so it stays valid markdown
+ * no matter where the text is cut off. Edits the user makes elsewhere in the note
+ * meanwhile are mapped through, so each update replaces only the reply.
+ */
+export class StreamingResponseWriter {
+  private editor: Editor;
+  private therapistName: string;
+  private startOffset: number;
+  private writtenLength = 0;
+  // Set while the writer's own edit goes through, which needs no mapping
+  private writing = false;
+
+  constructor(editor: Editor, therapistName: string) {
+    this.editor = editor;
+    this.therapistName = therapistName;
+
+    // Same insertion point as a non-streamed response: end of the cursor's line
+    const cursor = editor.getCursor();
+    const lineEnd = { line: cursor.line, ch: editor.getLine(cursor.line).length };
+    this.startOffset = editor.posToOffset(lineEnd);
+  }
+
+  /**
+   * Show a placeholder until the first token arrives
+   */
+  begin() {
+    this.write(formatResponse('…', this.therapistName));
+  }
+
+  /**
+   * Replace the streamed blockquote with the text received so far
+   */
+  update(text: string) {
+    this.write(formatResponse(text, this.therapistName));
+  }
+
+  /**
+   * Write the final text, or remove the blockquote if nothing usable came back
+   */
+  finish(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed === '[listening]') {
+      this.discard();
+      return;
+    }
+    this.update(text);
+    this.editor.setCursor(this.editor.offsetToPos(this.startOffset + this.writtenLength));
+  }
+
+  /**
+   * Follow an edit made to the note while the reply streams in
+   * mapPos follows CodeMirror's ChangeSet.mapPos(pos, assoc). Text typed right
+   * before the reply stays before it, and right after it stays after it.
+   */
+  mapChanges(mapPos: (pos: number, assoc: number) => number) {
+    if (this.writing) return;
+    const start = mapPos(this.startOffset, 1);
+    const end = mapPos(this.startOffset + this.writtenLength, -1);
+    this.startOffset = start;
+    this.writtenLength = Math.max(0, end - start);
+  }
+
+  /**
+   * Whether this writer is streaming into the given editor
+   */
+  writesTo(editor: Editor | undefined): boolean {
+    return editor === this.editor;
+  }
+
+  /**
+   * Remove everything this writer has inserted
+   */
+  discard() {
+    this.write('');
+  }
+
+  private write(formatted: string) {
+    const from = this.editor.offsetToPos(this.startOffset);
+    const to = this.editor.offsetToPos(this.startOffset + this.writtenLength);
+    this.writing = true;
+    try {
+      this.editor.replaceRange(formatted, from, to);
+    } finally {
+      this.writing = false;
+    }
+    this.writtenLength = formatted.length;
+  }
+}
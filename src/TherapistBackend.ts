@@ -0,0 +1,84 @@
+/**
+ * The operations the plugin needs from whatever is hosting the agent
+ * LettaService talks to a Letta server; LocalBackend talks to an
+ * OpenAI-compatible endpoint and keeps memory inside the vault.
+ */
+
+import type { AgentResponse } from './agentResponse';
+
+export interface MemoryBlock {
+  id: string;
+  label: string;
+  value: string;
+}
+
+export interface ArchivalMemory {
+  id: string;
+  text: string;
+  created_at: string;
+}
+
+/**
+ * One message from the agent's conversation history, oldest first in lists
+ */
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  /** ISO timestamp, when the backend records one */
+  date?: string;
+}
+
+/**
+ * A chunk of a note for an archive
+ */
+export interface Passage {
+  text: string;
+  metadata?: Record<string, string>;
+}
+
+export interface TherapistBackend {
+  /**
+   * Check if the backend is reachable
+   */
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Send a message to the agent and get its response, including any
+   * reasoning and tool calls that led to it
+   */
+  sendMessage(agentId: string, content: string): Promise<AgentResponse>;
+
+  /**
+   * Send a message and receive the accumulated response text as it is generated
+   */
+  sendMessageStream(
+    agentId: string,
+    content: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentResponse>;
+
+  /**
+   * The most recent user and assistant messages of the agent's conversation
+   */
+  getMessages(agentId: string, limit?: number): Promise<HistoryMessage[]>;
+
+  // Core memory blocks
+  getMemoryBlocks(agentId: string): Promise<MemoryBlock[]>;
+  updateMemoryBlock(agentId: string, blockLabel: string, value: string): Promise<void>;
+  createMemoryBlock(agentId: string, label: string, value: string): Promise<string>;
+  deleteMemoryBlock(agentId: string, blockId: string): Promise<void>;
+
+  // Archival memory
+  getArchivalMemory(agentId: string, limit?: number): Promise<ArchivalMemory[]>;
+  addArchivalMemory(agentId: string, text: string): Promise<void>;
+  deleteArchivalMemory(agentId: string, memoryId: string): Promise<void>;
+
+  // Archives of vault passages
+  listArchives(): Promise<Array<{ id: string; name: string }>>;
+  createArchive(name: string, embedding?: string): Promise<string>;
+  attachArchive(agentId: string, archiveId: string): Promise<void>;
+  /** Add a whole indexing run's passages at once, returning how many could not be added */
+  addPassages(archiveId: string, passages: Passage[]): Promise<number>;
+  clearArchive(archiveId: string): Promise<void>;
+}
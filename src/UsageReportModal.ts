@@ -0,0 +1,117 @@
+import { App, Modal } from 'obsidian';
+import { Budgets, UsageGrouping, UsageTotals, UsageTracker, dayKey, formatCost, hasKnownPrice } from './usage';
+
+const REPORT_DAYS = 30;
+
+const TABS: Array<{ grouping: UsageGrouping; label: string; column: string }> = [
+  { grouping: 'day', label: 'By day', column: 'Day' },
+  { grouping: 'agentId', label: 'By agent', column: 'Agent' },
+  { grouping: 'notePath', label: 'By note', column: 'Note' },
+  { grouping: 'model', label: 'By model', column: 'Model' },
+];
+
+export class UsageReportModal extends Modal {
+  private usage: UsageTracker;
+  private budgets: Budgets;
+  private agentName: (agentId: string) => string;
+  private activeTab: UsageGrouping = 'day';
+
+  constructor(app: App, usage: UsageTracker, budgets: Budgets, agentName: (agentId: string) => string) {
+    super(app);
+    this.usage = usage;
+    this.budgets = budgets;
+    this.agentName = agentName;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('therapist-usage-modal');
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Therapist Usage' });
+
+    const summaryEl = contentEl.createDiv({ cls: 'therapist-usage-summary' });
+    this.renderSummary(summaryEl, 'Today', this.usage.today(), this.budgets.daily);
+    this.renderSummary(summaryEl, 'This month', this.usage.thisMonth(), this.budgets.monthly);
+
+    const tabsEl = contentEl.createDiv({ cls: 'therapist-memory-tabs' });
+    for (const tab of TABS) {
+      const tabEl = tabsEl.createEl('button', {
+        text: tab.label,
+        cls: 'therapist-memory-tab' + (tab.grouping === this.activeTab ? ' is-active' : ''),
+      });
+      tabEl.addEventListener('click', () => {
+        this.activeTab = tab.grouping;
+        tabsEl.querySelectorAll('.therapist-memory-tab').forEach(el => el.removeClass('is-active'));
+        tabEl.addClass('is-active');
+        this.renderTable(tableEl);
+      });
+    }
+
+    const tableEl = contentEl.createDiv({ cls: 'therapist-usage-table' });
+    this.renderTable(tableEl);
+
+    contentEl.createEl('p', {
+      text: 'Costs are estimates from list prices. Models marked * have no known price and are counted as free.',
+      cls: 'setting-item-description',
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private renderSummary(container: HTMLElement, label: string, totals: UsageTotals, budget: number) {
+    const cardEl = container.createDiv({ cls: 'therapist-usage-card' });
+    cardEl.createDiv({ text: label, cls: 'therapist-usage-card-label' });
+    cardEl.createDiv({
+      text: budget > 0 ? `${formatCost(totals.cost)} of ${formatCost(budget)}` : formatCost(totals.cost),
+      cls: 'therapist-usage-card-cost',
+    });
+    cardEl.createDiv({
+      text: `${(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens · ${totals.calls} calls`,
+      cls: 'therapist-usage-card-detail',
+    });
+  }
+
+  private renderTable(container: HTMLElement) {
+    container.empty();
+
+    const since = dayKey(new Date(Date.now() - (REPORT_DAYS - 1) * 24 * 60 * 60 * 1000));
+    const rows = this.usage.summarize(this.activeTab, since);
+    if (rows.length === 0) {
+      container.createDiv({ text: `No usage in the last ${REPORT_DAYS} days`, cls: 'therapist-memory-empty' });
+      return;
+    }
+
+    const table = container.createEl('table');
+    const header = table.createEl('thead').createEl('tr');
+    const column = TABS.find(t => t.grouping === this.activeTab)?.column ?? '';
+    for (const title of [column, 'Calls', 'Input tokens', 'Output tokens', 'Cost']) {
+      header.createEl('th', { text: title });
+    }
+
+    const body = table.createEl('tbody');
+    for (const { key, totals } of rows) {
+      const row = body.createEl('tr');
+      row.createEl('td', { text: this.label(key) });
+      row.createEl('td', { text: String(totals.calls) });
+      row.createEl('td', { text: totals.promptTokens.toLocaleString() });
+      row.createEl('td', { text: totals.completionTokens.toLocaleString() });
+      row.createEl('td', { text: formatCost(totals.cost) });
+    }
+  }
+
+  private label(key: string): string {
+    switch (this.activeTab) {
+      case 'agentId':
+        return this.agentName(key);
+      case 'notePath':
+        return key || '(no note)';
+      case 'model':
+        return hasKnownPrice(key) ? key : `${key} *`;
+      default:
+        return key;
+    }
+  }
+}
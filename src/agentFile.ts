@@ -0,0 +1,89 @@
+/**
+ * Versioned agent backup format
+ * Holds everything needed to recreate a therapist on any Letta server.
+ */
+
+export const AGENT_FILE_FORMAT = 'obsidian-therapist-agent';
+export const AGENT_FILE_VERSION = 1;
+
+export interface AgentFile {
+  format: typeof AGENT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agent: {
+    name: string;
+    model: string;
+    embedding: string;
+    /** Raw llm_config from the server, kept for reference */
+    llmConfig?: Record<string, unknown>;
+  };
+  therapistName: string;
+  /** Core memory blocks, persona and human included */
+  blocks: Array<{ label: string; value: string }>;
+  archival: Array<{ text: string; created_at: string }>;
+}
+
+export class AgentFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentFileError';
+  }
+}
+
+/**
+ * Read and validate an agent file
+ * Throws AgentFileError describing what is wrong with it.
+ */
+export function parseAgentFile(json: string): AgentFile {
+  let data: Partial<AgentFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new AgentFileError('Not a valid JSON file');
+  }
+
+  if (!data || data.format !== AGENT_FILE_FORMAT) {
+    throw new AgentFileError('Not a therapist backup file');
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new AgentFileError('Backup file has no version');
+  }
+  if (data.version > AGENT_FILE_VERSION) {
+    throw new AgentFileError(`Backup was made by a newer plugin version (format v${data.version}) — update the plugin to import it`);
+  }
+  if (!data.agent || typeof data.agent.name !== 'string' || typeof data.agent.model !== 'string') {
+    throw new AgentFileError('Backup is missing the agent name or model');
+  }
+  if (!Array.isArray(data.blocks) || !data.blocks.some(b => b?.label === 'persona')) {
+    throw new AgentFileError('Backup is missing the persona block');
+  }
+
+  return {
+    format: AGENT_FILE_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt ?? '',
+    agent: {
+      name: data.agent.name,
+      model: data.agent.model,
+      embedding: data.agent.embedding || 'letta/letta-free',
+      llmConfig: data.agent.llmConfig,
+    },
+    therapistName: data.therapistName || 'Therapist',
+    blocks: data.blocks
+      .filter(b => typeof b?.label === 'string' && typeof b?.value === 'string')
+      .map(b => ({ label: b.label, value: b.value })),
+    archival: (Array.isArray(data.archival) ? data.archival : [])
+      .filter(m => typeof m?.text === 'string')
+      .map(m => ({ text: m.text, created_at: m.created_at ?? '' })),
+  };
+}
+
+/**
+ * File name for a backup, e.g. "therapist-2026-01-09-140512.json"
+ */
+export function agentFileName(agentName: string, date: Date): string {
+  const safeName = agentName.replace(/[\\/:*?"<>|#^[\]]+/g, '-').trim() || 'therapist';
+  const pad = (n: number) => ('0' + n).slice(-2);
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${safeName}-${stamp}.json`;
+}
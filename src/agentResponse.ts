@@ -0,0 +1,271 @@
+/**
+ * Structured agent responses
+ * Letta replies with a list of messages - reasoning, tool calls, tool returns and
+ * the assistant message. We keep all of it so the UI can show why the agent said
+ * something and when it changed its own memory.
+ */
+
+import type { HistoryMessage } from './TherapistBackend';
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON arguments as sent by the model */
+  arguments: string;
+  result?: string;
+  status?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AgentResponse {
+  text: string;
+  reasoning: string[];
+  toolCalls: AgentToolCall[];
+  /** Tokens spent producing the response, if the server reported them */
+  usage?: TokenUsage;
+}
+
+/** Tools through which the agent edits its own memory */
+export const MEMORY_EDIT_TOOLS = [
+  'core_memory_append',
+  'core_memory_replace',
+  'archival_memory_insert',
+  'memory_insert',
+  'memory_replace',
+  'memory_rethink',
+];
+
+/** Tools that only exist to deliver the reply itself */
+const REPLY_TOOLS = ['send_message'];
+
+interface LettaMessage {
+  id?: string;
+  message_type?: string;
+  content?: unknown;
+  reasoning?: string;
+  tool_call?: { name?: string; arguments?: string; tool_call_id?: string };
+  tool_return?: string;
+  tool_call_id?: string;
+  status?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  date?: string;
+}
+
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part: { text?: string }) => part?.text ?? '').join('');
+  }
+  return '';
+}
+
+/**
+ * Token counts from a Letta or OpenAI-style usage object
+ */
+export function parseUsage(raw: unknown): TokenUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const usage = raw as { prompt_tokens?: unknown; completion_tokens?: unknown; total_tokens?: unknown };
+  const promptTokens = typeof usage.prompt_tokens === 'number' ? usage.prompt_tokens : 0;
+  const completionTokens = typeof usage.completion_tokens === 'number' ? usage.completion_tokens : 0;
+  const totalTokens = typeof usage.total_tokens === 'number' ? usage.total_tokens : promptTokens + completionTokens;
+  if (totalTokens === 0) return undefined;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+/**
+ * Build a structured response from Letta's message list
+ * Streamed chunks share an id, so consecutive pieces of the same message are merged;
+ * separate assistant messages become separate paragraphs.
+ * Usage comes either as the response's usage object or as usage_statistics messages in a stream.
+ */
+export function parseAgentMessages(messages: LettaMessage[], usage?: unknown): AgentResponse {
+  const reasoning: string[] = [];
+  const reasoningIndex = new Map<string, number>();
+  const toolCalls: AgentToolCall[] = [];
+  const toolCallIndex = new Map<string, AgentToolCall>();
+  let text = '';
+  let lastAssistantId: string | undefined;
+  let fallback = '';
+  let streamedUsage: TokenUsage | undefined;
+
+  for (const msg of messages) {
+    switch (msg.message_type) {
+      case 'assistant_message':
+        if (text && (msg.id === undefined || msg.id !== lastAssistantId)) {
+          text += '\n\n';
+        }
+        lastAssistantId = msg.id;
+        text += contentText(msg.content);
+        break;
+
+      case 'reasoning_message': {
+        const piece = msg.reasoning ?? '';
+        const existing = msg.id !== undefined ? reasoningIndex.get(msg.id) : undefined;
+        if (existing !== undefined) {
+          reasoning[existing] += piece;
+        } else {
+          if (msg.id !== undefined) reasoningIndex.set(msg.id, reasoning.length);
+          reasoning.push(piece);
+        }
+        break;
+      }
+
+      case 'tool_call_message': {
+        const call = msg.tool_call ?? {};
+        const callId = call.tool_call_id ?? msg.id ?? String(toolCalls.length);
+        const existing = toolCallIndex.get(callId);
+        if (existing) {
+          existing.name = existing.name || call.name || '';
+          existing.arguments += call.arguments ?? '';
+        } else {
+          const entry: AgentToolCall = {
+            id: callId,
+            name: call.name ?? '',
+            arguments: call.arguments ?? '',
+          };
+          toolCallIndex.set(callId, entry);
+          toolCalls.push(entry);
+        }
+        break;
+      }
+
+      case 'tool_return_message': {
+        const entry = msg.tool_call_id ? toolCallIndex.get(msg.tool_call_id) : toolCalls[toolCalls.length - 1];
+        if (entry) {
+          entry.result = msg.tool_return;
+          entry.status = msg.status;
+        }
+        break;
+      }
+
+      case 'usage_statistics': {
+        const stats = parseUsage(msg);
+        if (stats) {
+          streamedUsage = {
+            promptTokens: (streamedUsage?.promptTokens ?? 0) + stats.promptTokens,
+            completionTokens: (streamedUsage?.completionTokens ?? 0) + stats.completionTokens,
+            totalTokens: (streamedUsage?.totalTokens ?? 0) + stats.totalTokens,
+          };
+        }
+        break;
+      }
+
+      default:
+        fallback = contentText(msg.content) || fallback;
+    }
+  }
+
+  return {
+    text: text || fallback,
+    reasoning: reasoning.filter(r => r.trim()),
+    toolCalls: toolCalls.filter(c => !REPLY_TOOLS.includes(c.name)),
+    usage: parseUsage(usage) ?? streamedUsage,
+  };
+}
+
+/**
+ * The user's side of a stored message
+ * Older Letta servers store user and system events as JSON envelopes - heartbeats,
+ * logins and alerts aren't anything the user said, so they come back as null.
+ */
+function userMessageText(content: string): string | null {
+  if (!content.startsWith('{')) return content;
+  try {
+    const envelope = JSON.parse(content);
+    if (envelope && typeof envelope === 'object' && typeof envelope.type === 'string') {
+      return envelope.type === 'user_message' && typeof envelope.message === 'string' ? envelope.message : null;
+    }
+  } catch {
+    // Not an envelope, just text starting with a brace
+  }
+  return content;
+}
+
+/**
+ * The conversation in a Letta message list, without reasoning, tool calls or system events
+ */
+export function parseHistoryMessages(messages: LettaMessage[]): HistoryMessage[] {
+  const history: HistoryMessage[] = [];
+  for (const msg of messages) {
+    let role: HistoryMessage['role'];
+    let content: string | null;
+    if (msg.message_type === 'user_message') {
+      role = 'user';
+      content = userMessageText(contentText(msg.content));
+    } else if (msg.message_type === 'assistant_message') {
+      role = 'assistant';
+      content = contentText(msg.content);
+    } else {
+      continue;
+    }
+    if (!content || !content.trim()) continue;
+
+    const entry: HistoryMessage = { role, content };
+    if (msg.date) {
+      entry.date = msg.date;
+    }
+    history.push(entry);
+  }
+
+  // Newest-first servers are put back in reading order
+  const first = history[0]?.date;
+  const last = history[history.length - 1]?.date;
+  if (first && last && first > last) {
+    history.reverse();
+  }
+  return history;
+}
+
+export function isMemoryEdit(call: AgentToolCall): boolean {
+  return MEMORY_EDIT_TOOLS.includes(call.name);
+}
+
+/**
+ * Whether a response has anything beyond its text worth showing
+ */
+export function hasSteps(response: AgentResponse): boolean {
+  return response.reasoning.length > 0 || response.toolCalls.length > 0;
+}
+
+function parseArguments(call: AgentToolCall): Record<string, string> {
+  try {
+    const parsed = JSON.parse(call.arguments);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * One-line, human readable summary of a tool call
+ */
+export function describeToolCall(call: AgentToolCall): string {
+  const args = parseArguments(call);
+  const quote = (value: string | undefined) => `“${(value ?? '').trim()}”`;
+
+  switch (call.name) {
+    case 'archival_memory_search':
+      return `Searched long-term memory for ${quote(args.query)}`;
+    case 'conversation_search':
+      return `Searched past conversations for ${quote(args.query)}`;
+    case 'archival_memory_insert':
+      return `Saved to long-term memory: ${quote(args.content)}`;
+    case 'core_memory_append':
+    case 'memory_insert':
+      return `Added to ${args.label ?? 'memory'}: ${quote(args.content ?? args.new_str)}`;
+    case 'core_memory_replace':
+    case 'memory_replace':
+      return `Changed ${args.label ?? 'memory'}: ${quote(args.old_content ?? args.old_str)} → ${quote(args.new_content ?? args.new_str)}`;
+    case 'memory_rethink':
+      return `Rewrote ${args.label ?? 'memory'}`;
+    default:
+      return `Used ${call.name || 'a tool'}`;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Decide which agent owns a note
+ */
+
+import type { AgentRole } from './LettaService';
+
+export interface AgentProfile {
+  id: string;
+  name: string;
+  role: AgentRole;
+  model: string;
+  /** Folders this agent observes; an agent with none only answers notes switched to it */
+  folders: string[];
+}
+
+export interface AgentRoutingOptions {
+  /** The main therapist - owns everything no other agent claims */
+  defaultAgentId: string;
+  agents: AgentProfile[];
+  /** Per-note choices made with the "switch agent" command */
+  noteAgents: Record<string, string>;
+}
+
+/**
+ * Whether a path is inside a folder ('' or '/' is the vault root)
+ */
+export function isInFolder(path: string, folder: string): boolean {
+  if (folder === '' || folder === '/') return true;
+  return path.startsWith(folder + '/') || path === folder;
+}
+
+/**
+ * Resolve the agent for a note path
+ * A per-note choice wins, then the agent with the most specific folder, then the default.
+ */
+export function resolveAgentId(path: string, options: AgentRoutingOptions): string {
+  const { defaultAgentId, agents, noteAgents } = options;
+
+  const chosen = noteAgents[path];
+  if (chosen && (chosen === defaultAgentId || agents.some(a => a.id === chosen))) {
+    return chosen;
+  }
+
+  let best: { id: string; depth: number } | null = null;
+  for (const agent of agents) {
+    for (const folder of agent.folders) {
+      if (!isInFolder(path, folder)) continue;
+      const depth = folder === '' || folder === '/' ? 0 : folder.split('/').length;
+      if (!best || depth > best.depth) {
+        best = { id: agent.id, depth };
+      }
+    }
+  }
+
+  return best ? best.id : defaultAgentId;
+}
+
+/**
+ * Find an agent by id or name (case-insensitive), as written in a note's frontmatter
+ */
+export function findAgent(nameOrId: string, defaultAgent: { id: string; name: string }, agents: AgentProfile[]): string | null {
+  const wanted = nameOrId.trim().toLowerCase();
+  if (!wanted) return null;
+  const all = [defaultAgent, ...agents];
+  const match = all.find(a => a.id.toLowerCase() === wanted) ?? all.find(a => a.name.toLowerCase() === wanted);
+  return match ? match.id : null;
+}
@@ -0,0 +1,111 @@
+/**
+ * The conversation shown in the chat panel
+ * The agent's history holds everything it was sent - observer prompts, inline
+ * conversations and chat - each wrapped in the instructions the plugin added.
+ * Those are peeled off so the panel reads like the conversation the user had.
+ */
+
+import type { HistoryMessage } from './TherapistBackend';
+
+export const CHAT_MODE_HEADER = '[CHAT MODE - The user is talking to you in the chat panel, away from their notes. Respond directly and conversationally.]';
+
+/** Headers the plugin puts in front of what the user wrote, one per line */
+const HEADER_PATTERN = /^\[(OBSERVER MODE|CONVERSATION MODE|CHAT MODE|JOURNAL SESSION|REVIEW MODE|MOOD CHECK|Written [^\n]*while you were offline)[^\n]*(\n+|$)/;
+/** Requests the plugin makes on its own, which aren't part of the conversation */
+const INTERNAL_HEADERS = ['JOURNAL SESSION', 'REVIEW MODE', 'MOOD CHECK'];
+const PERSONA_START = '[NOTE PERSONA';
+const PERSONA_END = '\n]\n';
+
+export interface ChatEntry {
+  role: 'user' | 'assistant';
+  text: string;
+  /** Milliseconds since the epoch, if the backend recorded when */
+  timestamp: number | null;
+  /** Written in a note rather than in the chat panel */
+  fromNote: boolean;
+}
+
+/**
+ * Prompt for a message typed into the chat panel
+ */
+export function chatPrompt(text: string): string {
+  return `${CHAT_MODE_HEADER}\n\n${text.trim()}`;
+}
+
+/**
+ * What the user actually wrote, without the plugin's instructions around it
+ */
+export function stripPromptHeaders(content: string): { text: string; fromNote: boolean; internal: boolean } {
+  let text = content;
+  let fromNote = false;
+  let chat = false;
+  let internal = false;
+
+  while (true) {
+    if (text.startsWith(PERSONA_START)) {
+      const end = text.indexOf(PERSONA_END);
+      if (end === -1) break;
+      text = text.slice(end + PERSONA_END.length).replace(/^\n+/, '');
+      fromNote = true;
+      continue;
+    }
+    const header = HEADER_PATTERN.exec(text);
+    if (!header) break;
+    if (header[1] === 'CHAT MODE') {
+      chat = true;
+    } else if (INTERNAL_HEADERS.includes(header[1])) {
+      internal = true;
+    } else {
+      fromNote = true;
+    }
+    text = text.slice(header[0].length);
+  }
+
+  return { text: text.trim(), fromNote: fromNote && !chat, internal };
+}
+
+function parseDate(date: string | undefined): number | null {
+  if (!date) return null;
+  const time = Date.parse(date);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Chat entries for an agent's history
+ * Observations the agent passed on with [listening] are left out along with
+ * what prompted them, as are the plugin's own requests and their answers.
+ * Replies sent as several messages are joined.
+ */
+export function toChatEntries(history: HistoryMessage[]): ChatEntry[] {
+  const entries: ChatEntry[] = [];
+  let hidden = false;
+
+  for (const message of history) {
+    const timestamp = parseDate(message.date);
+
+    if (message.role === 'assistant') {
+      if (hidden) continue;
+      const text = message.content.trim();
+      const last = entries[entries.length - 1];
+      if (text === '[listening]') {
+        if (last && last.role === 'user') {
+          entries.pop();
+        }
+        continue;
+      }
+      if (last && last.role === 'assistant') {
+        last.text += `\n\n${text}`;
+        continue;
+      }
+      entries.push({ role: 'assistant', text, timestamp, fromNote: false });
+      continue;
+    }
+
+    const { text, fromNote, internal } = stripPromptHeaders(message.content);
+    hidden = internal || !text;
+    if (hidden) continue;
+    entries.push({ role: 'user', text, timestamp, fromNote });
+  }
+
+  return entries;
+}
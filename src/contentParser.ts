@@ -126,6 +126,35 @@ export function getJournalContent(fullContent: string): string | null {
   return lines.slice(1, endIndex).join('\n').trim();
 }
 
+/**
+ * Offset where the Journal section ends, after its last non-blank line
+ * Returns null if no journal section exists
+ */
+export function journalSectionEnd(fullContent: string): number | null {
+  const lines = fullContent.split('\n');
+  let offset = 0;
+  let headerLevel = 0;
+  let end: number | null = null;
+
+  for (const line of lines) {
+    // Indented headers count too, as they do when looking for the Journal header
+    const headerMatch = line.trim().match(/^(#{1,6})\s/);
+    if (headerLevel === 0) {
+      if (headerMatch && JOURNAL_HEADERS.includes(line.trim())) {
+        headerLevel = headerMatch[1].length;
+        end = offset + line.length;
+      }
+    } else if (headerMatch && headerMatch[1].length <= headerLevel) {
+      break;
+    } else if (line.trim()) {
+      end = offset + line.length;
+    }
+    offset += line.length + 1;
+  }
+
+  return end;
+}
+
 /**
  * Check if content contains engagement cues suggesting user wants a response
  */
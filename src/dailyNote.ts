@@ -0,0 +1,77 @@
+/**
+ * Today's note for a journaling session
+ * Follows the core Daily Notes plugin - its folder, date format and template -
+ * so a session lands in the same note the calendar and daily-note command open.
+ */
+
+import { journalSectionEnd } from './contentParser';
+
+export const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+export const JOURNAL_SECTION = '## Journal';
+
+export interface DailyNoteOptions {
+  folder: string;
+  /** Moment.js format of the file name */
+  format: string;
+  /** Path of the template new daily notes start from, if any */
+  template: string;
+}
+
+/**
+ * Options from the Daily Notes plugin's settings, with its defaults for anything unset
+ */
+export function dailyNoteOptions(raw: unknown): DailyNoteOptions {
+  const options = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof DailyNoteOptions, unknown>>;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  return {
+    folder: text(options.folder).replace(/^\/+|\/+$/g, ''),
+    format: text(options.format) || DEFAULT_DAILY_NOTE_FORMAT,
+    template: text(options.template),
+  };
+}
+
+/**
+ * Vault path of a daily note - the formatted date may itself contain folders
+ */
+export function dailyNotePath(options: DailyNoteOptions, fileName: string): string {
+  const name = `${fileName}.md`;
+  return options.folder ? `${options.folder}/${name}` : name;
+}
+
+/**
+ * The part of a note's path a daily note's date is formatted into, or null
+ * if the note isn't in the daily notes folder
+ */
+export function dailyNoteName(options: DailyNoteOptions, path: string): string | null {
+  if (!path.endsWith('.md')) return null;
+  const prefix = options.folder ? `${options.folder}/` : '';
+  if (!path.startsWith(prefix)) return null;
+  return path.slice(prefix.length, -'.md'.length);
+}
+
+/**
+ * Fill a daily note template the way the Daily Notes plugin does
+ * formatDate formats the note's date with a Moment.js format.
+ */
+export function fillDailyTemplate(template: string, title: string, formatDate: (format: string) => string): string {
+  return template
+    .replace(/{{\s*(date|time)\s*(?::([^}]*))?}}/gi, (_match, kind: string, format?: string) => {
+      const fallback = kind.toLowerCase() === 'time' ? 'HH:mm' : DEFAULT_DAILY_NOTE_FORMAT;
+      return formatDate(format && format.trim() ? format.trim() : fallback);
+    })
+    .replace(/{{\s*title\s*}}/gi, title);
+}
+
+/**
+ * Where a session's opening prompt goes, and the text to put before it
+ * The end of an existing Journal section, or a new section at the end of the note.
+ */
+export function journalInsertion(content: string): { offset: number; text: string } {
+  const end = journalSectionEnd(content);
+  if (end !== null) {
+    return { offset: end, text: '' };
+  }
+
+  const offset = content.replace(/\s+$/, '').length;
+  return { offset, text: offset > 0 ? `\n\n${JOURNAL_SECTION}` : JOURNAL_SECTION };
+}
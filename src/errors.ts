@@ -0,0 +1,216 @@
+/**
+ * Typed errors for Letta requests
+ * Kept free of Obsidian imports so the classification logic can be tested directly.
+ */
+
+export type LettaResource = 'agent' | 'archive' | 'block' | 'provider' | 'server';
+
+/**
+ * Base class for every failure talking to the Letta server
+ */
+export class LettaError extends Error {
+  status?: number;
+  resource: LettaResource;
+
+  constructor(message: string, status?: number, resource: LettaResource = 'server') {
+    super(message);
+    this.name = 'LettaError';
+    this.status = status;
+    this.resource = resource;
+  }
+}
+
+/** 401 / 403 - missing or wrong API key */
+export class LettaAuthError extends LettaError {
+  constructor(message: string, status?: number, resource?: LettaResource) {
+    super(message, status, resource);
+    this.name = 'LettaAuthError';
+  }
+}
+
+/** 404 - the agent, archive or block is gone */
+export class LettaNotFoundError extends LettaError {
+  constructor(message: string, status?: number, resource?: LettaResource) {
+    super(message, status, resource);
+    this.name = 'LettaNotFoundError';
+  }
+}
+
+/** 429 - the server or the model provider is throttling us */
+export class LettaRateLimitError extends LettaError {
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, resource?: LettaResource, retryAfterMs?: number) {
+    super(message, status, resource);
+    this.name = 'LettaRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** 5xx - the server failed */
+export class LettaServerError extends LettaError {
+  constructor(message: string, status?: number, resource?: LettaResource) {
+    super(message, status, resource);
+    this.name = 'LettaServerError';
+  }
+}
+
+/** No response at all - server down, DNS, connection refused */
+export class LettaNetworkError extends LettaError {
+  constructor(message: string, resource?: LettaResource) {
+    super(message, undefined, resource);
+    this.name = 'LettaNetworkError';
+  }
+}
+
+/** The server did not answer within the request timeout */
+export class LettaTimeoutError extends LettaNetworkError {
+  timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, resource?: LettaResource) {
+    super(message, resource);
+    this.name = 'LettaTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The server is too old (or built without) a feature we need */
+export class LettaUnsupportedError extends LettaError {
+  feature: string;
+
+  constructor(message: string, feature: string, resource?: LettaResource) {
+    super(message, undefined, resource);
+    this.name = 'LettaUnsupportedError';
+    this.feature = feature;
+  }
+}
+
+/**
+ * Work out which kind of resource a Letta API path refers to
+ */
+export function resourceFromPath(path: string): LettaResource {
+  if (/\/v1\/agents\/[^/]+\/core-memory\/blocks/.test(path) || path.includes('/v1/blocks')) return 'block';
+  if (path.includes('/v1/archives')) return 'archive';
+  if (path.includes('/v1/providers')) return 'provider';
+  if (/\/v1\/agents\/[^/?]+/.test(path)) return 'agent';
+  return 'server';
+}
+
+/**
+ * Build the right error subclass for a failed HTTP response
+ */
+export function errorFromResponse(
+  status: number,
+  body: string,
+  action: string,
+  path: string = '',
+  retryAfterHeader?: string
+): LettaError {
+  const resource = resourceFromPath(path);
+  const message = `Failed to ${action}: ${body || `HTTP ${status}`}`;
+
+  if (status === 401 || status === 403) {
+    return new LettaAuthError(message, status, resource);
+  }
+  if (status === 404) {
+    return new LettaNotFoundError(message, status, resource);
+  }
+  if (status === 429) {
+    const seconds = retryAfterHeader ? parseFloat(retryAfterHeader) : NaN;
+    return new LettaRateLimitError(message, status, resource, isNaN(seconds) ? undefined : seconds * 1000);
+  }
+  if (status >= 500) {
+    return new LettaServerError(message, status, resource);
+  }
+  return new LettaError(message, status, resource);
+}
+
+/**
+ * Whether a request that failed this way is worth repeating
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof LettaRateLimitError
+    || error instanceof LettaServerError
+    || error instanceof LettaNetworkError;
+}
+
+/**
+ * Whether a message that failed this way can be sent again without risking a duplicate
+ * A send that timed out may already have reached the agent, which would then see it twice.
+ */
+export function isSafeToResend(error: unknown): boolean {
+  return isRetryable(error) && !(error instanceof LettaTimeoutError);
+}
+
+/**
+ * Exponential backoff with jitter, honouring Retry-After when the server sends one
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number = 500,
+  maxMs: number = 8000,
+  retryAfterMs?: number
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxMs);
+  }
+  const exponential = Math.min(baseMs * Math.pow(2, attempt), maxMs);
+  // Up to 25% jitter so parallel retries don't line up
+  return Math.round(exponential * (0.75 + Math.random() * 0.25));
+}
+
+/**
+ * Reject if the promise hasn't settled within timeoutMs
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => Error): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Turn any error into a message the user can act on
+ * The local backend reports its failures with these types too, so only messages
+ * for what Letta alone does name it.
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof LettaUnsupportedError) {
+    return error.message;
+  }
+  if (error instanceof LettaAuthError) {
+    return 'The server rejected the API key — check it under Server in settings';
+  }
+  if (error instanceof LettaNotFoundError) {
+    switch (error.resource) {
+      case 'agent':
+        return 'Agent no longer exists on server — reconnect? Create or import a therapist in settings';
+      case 'archive':
+        return 'Vault archive no longer exists — reindex to recreate it';
+      case 'block':
+        return 'That memory block no longer exists — reopen memory to refresh';
+      default:
+        return 'The server does not support this request — is it up to date?';
+    }
+  }
+  if (error instanceof LettaRateLimitError) {
+    const wait = error.retryAfterMs ? ` in ${Math.ceil(error.retryAfterMs / 1000)}s` : ' in a moment';
+    return `Rate limited by the server or model provider — try again${wait}`;
+  }
+  if (error instanceof LettaServerError) {
+    return `Server error (${error.status}) — check the server logs`;
+  }
+  if (error instanceof LettaTimeoutError) {
+    return `The server took longer than ${Math.round(error.timeoutMs / 1000)}s to respond — it may still have received the message`;
+  }
+  if (error instanceof LettaNetworkError) {
+    return 'Cannot reach the server — is it running?';
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unknown error';
+}
@@ -0,0 +1,83 @@
+/**
+ * Turning insight ratings into something the agent can learn from
+ * Ratings are summarised into a "feedback" core memory block, so the agent sees
+ * which kinds of observations helped and which ones it should have kept to itself.
+ */
+
+import type { Insight } from './insights';
+
+export const FEEDBACK_BLOCK = 'feedback';
+
+/** Sync once this many new ratings have piled up... */
+export const FEEDBACK_SYNC_AFTER = 5;
+/** ...or when the last sync is this old and anything new was rated */
+export const FEEDBACK_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const EXAMPLES_PER_KIND = 5;
+const EXCERPT_LENGTH = 140;
+
+export interface FeedbackTotals {
+  helpful: number;
+  notHelpful: number;
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? flat.slice(0, EXCERPT_LENGTH - 1) + '…' : flat;
+}
+
+function rated(insights: Insight[]): Insight[] {
+  return insights.filter(i => i.rating !== undefined);
+}
+
+export function feedbackTotals(insights: Insight[]): FeedbackTotals {
+  const totals: FeedbackTotals = { helpful: 0, notHelpful: 0 };
+  for (const insight of rated(insights)) {
+    if (insight.rating!.helpful) {
+      totals.helpful++;
+    } else {
+      totals.notHelpful++;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Whether enough has been rated since the last sync to update the block
+ */
+export function shouldSyncFeedback(insights: Insight[], lastSync: number, now: number = Date.now()): boolean {
+  const fresh = rated(insights).filter(i => i.rating!.timestamp > lastSync).length;
+  if (fresh === 0) return false;
+  return fresh >= FEEDBACK_SYNC_AFTER || now - lastSync >= FEEDBACK_SYNC_INTERVAL_MS;
+}
+
+/**
+ * Contents of the feedback block for one agent's insights, or null if none were rated
+ */
+export function summarizeFeedback(insights: Insight[]): string | null {
+  const ratedInsights = rated(insights).sort((a, b) => b.rating!.timestamp - a.rating!.timestamp);
+  if (ratedInsights.length === 0) return null;
+
+  const totals = feedbackTotals(ratedInsights);
+  const lines = [
+    `The user has rated ${ratedInsights.length} of your observations: ${totals.helpful} helpful, ${totals.notHelpful} not helpful.`,
+  ];
+
+  const examples = (helpful: boolean, heading: string) => {
+    const matching = ratedInsights.filter(i => i.rating!.helpful === helpful).slice(0, EXAMPLES_PER_KIND);
+    if (matching.length === 0) return;
+    lines.push('', heading);
+    for (const insight of matching) {
+      const comment = insight.rating!.comment.trim();
+      lines.push(`- "${excerpt(insight.text)}"${comment ? ` (user: ${excerpt(comment)})` : ''}`);
+    }
+  };
+  examples(true, 'Recent observations the user found helpful:');
+  examples(false, 'Recent observations the user did not find helpful:');
+
+  lines.push(
+    '',
+    'Offer more observations like the helpful ones. When what you would say resembles the unhelpful ones, respond with [listening] instead.'
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,153 @@
+/**
+ * Pending insights shown beside their paragraph in the editor
+ * A CodeMirror widget sits at the end of the paragraph an insight reacted to.
+ * It only decorates the view - nothing reaches the file unless it is accepted.
+ */
+
+import { StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { Component, editorInfoField } from 'obsidian';
+
+export interface InlineInsight {
+  id: string;
+  /** Offset the widget sits at */
+  pos: number;
+  /** Who it's from, shown on the card */
+  title: string;
+  text: string;
+}
+
+/**
+ * What the editor extension needs from the plugin
+ */
+export interface InlineInsightSource {
+  enabled(): boolean;
+  /** Pending insights of a note with their positions in its current text */
+  insightsFor(path: string, content: string): InlineInsight[];
+  /** Rendered children (embeds, links) belong to the component, unloaded with the widget */
+  renderMarkdown(text: string, el: HTMLElement, path: string, component: Component): void;
+  accept(id: string, view: EditorView): void;
+  dismiss(id: string, view: EditorView): void;
+}
+
+export interface InlineInsights {
+  extension: ViewPlugin<InlineInsightsPlugin>;
+  /** Redraw every editor, after insights or the setting changed */
+  refresh(): void;
+}
+
+const refreshEffect = StateEffect.define<null>();
+
+// The component each drawn widget's Markdown was rendered into
+const widgetComponents = new WeakMap<HTMLElement, Component>();
+
+class InsightWidget extends WidgetType {
+  constructor(
+    private readonly insight: InlineInsight,
+    private readonly path: string,
+    private readonly source: InlineInsightSource
+  ) {
+    super();
+  }
+
+  eq(other: InsightWidget): boolean {
+    return other.insight.id === this.insight.id && other.insight.text === this.insight.text;
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const wrapper = createSpan({ cls: 'therapist-inline-insight' });
+    // Keep clicks from moving the cursor into the widget
+    wrapper.addEventListener('mousedown', (e) => e.preventDefault());
+
+    const badge = wrapper.createSpan({
+      text: '💭',
+      cls: 'therapist-inline-insight-badge',
+      attr: { 'aria-label': `Insight from ${this.insight.title}` },
+    });
+    badge.addEventListener('click', () => wrapper.toggleClass('is-expanded', !wrapper.hasClass('is-expanded')));
+
+    const card = wrapper.createSpan({ cls: 'therapist-inline-insight-card' });
+    card.createSpan({ text: this.insight.title, cls: 'therapist-inline-insight-title' });
+    const body = card.createSpan({ cls: 'therapist-inline-insight-body markdown-rendered' });
+    const component = new Component();
+    component.load();
+    widgetComponents.set(wrapper, component);
+    this.source.renderMarkdown(this.insight.text, body, this.path, component);
+
+    const actions = card.createSpan({ cls: 'therapist-inline-insight-actions' });
+    const accept = actions.createEl('button', { text: 'Accept', cls: 'therapist-popover-btn primary' });
+    accept.addEventListener('click', () => this.source.accept(this.insight.id, view));
+    const dismiss = actions.createEl('button', { text: 'Dismiss', cls: 'therapist-popover-btn secondary' });
+    dismiss.addEventListener('click', () => this.source.dismiss(this.insight.id, view));
+
+    return wrapper;
+  }
+
+  destroy(dom: HTMLElement): void {
+    widgetComponents.get(dom)?.unload();
+    widgetComponents.delete(dom);
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+class InlineInsightsPlugin {
+  decorations: DecorationSet;
+  private path: string | null;
+
+  constructor(private readonly view: EditorView, private readonly source: InlineInsightSource, private readonly views: Set<EditorView>) {
+    views.add(view);
+    this.path = this.pathOf(view);
+    this.decorations = this.build();
+  }
+
+  update(update: ViewUpdate) {
+    const path = this.pathOf(update.view);
+    const refreshed = update.transactions.some(tr => tr.effects.some(e => e.is(refreshEffect)));
+    if (refreshed || path !== this.path) {
+      this.path = path;
+      this.decorations = this.build();
+    } else if (update.docChanged) {
+      this.decorations = this.decorations.map(update.changes);
+    }
+  }
+
+  destroy() {
+    this.views.delete(this.view);
+  }
+
+  private pathOf(view: EditorView): string | null {
+    return view.state.field(editorInfoField, false)?.file?.path ?? null;
+  }
+
+  private build(): DecorationSet {
+    if (!this.path || !this.source.enabled()) return Decoration.none;
+    const length = this.view.state.doc.length;
+    const widgets = this.source.insightsFor(this.path, this.view.state.doc.toString())
+      .filter(insight => insight.pos >= 0 && insight.pos <= length)
+      .map(insight => Decoration.widget({
+        widget: new InsightWidget(insight, this.path!, this.source),
+        side: 1,
+      }).range(insight.pos));
+    return Decoration.set(widgets, true);
+  }
+}
+
+/**
+ * Editor extension plus a way to redraw it
+ */
+export function createInlineInsights(source: InlineInsightSource): InlineInsights {
+  const views = new Set<EditorView>();
+  const extension = ViewPlugin.define(view => new InlineInsightsPlugin(view, source, views), {
+    decorations: plugin => plugin.decorations,
+  });
+
+  return {
+    extension,
+    refresh() {
+      views.forEach(view => view.dispatch({ effects: refreshEffect.of(null) }));
+    },
+  };
+}
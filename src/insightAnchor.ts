@@ -0,0 +1,77 @@
+/**
+ * Where in a note an insight belongs
+ * An insight remembers the paragraph it reacted to, so it can be inserted right
+ * after it even when the cursor has moved on. Offsets are kept up to date while
+ * the note is open; the paragraph text finds the spot again when they go stale.
+ */
+
+export interface InsightAnchor {
+  /** Offsets of the paragraph in the note */
+  from: number;
+  to: number;
+  /** The paragraph as it was written */
+  text: string;
+}
+
+/**
+ * Locate a paragraph in a note, preferring the occurrence nearest a position
+ */
+export function findParagraph(content: string, paragraph: string, near: number = 0): InsightAnchor | null {
+  const text = paragraph.trim();
+  if (!text) return null;
+
+  let best = -1;
+  let index = content.indexOf(text);
+  while (index !== -1) {
+    if (best === -1 || Math.abs(index - near) < Math.abs(best - near)) {
+      best = index;
+    }
+    index = content.indexOf(text, index + 1);
+  }
+  return best === -1 ? null : { from: best, to: best + text.length, text };
+}
+
+/**
+ * End of the paragraph (run of non-blank lines) around a position
+ */
+export function paragraphEnd(content: string, pos: number): number {
+  let end = Math.max(0, Math.min(pos, content.length));
+  // From a blank line, the paragraph is the one before it
+  while (end > 0 && content[end - 1] === '\n' && (end === content.length || content[end] === '\n')) {
+    end--;
+  }
+  const blank = content.slice(end).search(/\n[ \t]*(\n|$)/);
+  return blank === -1 ? content.length : end + blank;
+}
+
+/**
+ * Keep an anchor on its paragraph through an edit
+ * mapPos follows CodeMirror's ChangeSet.mapPos(pos, assoc).
+ */
+export function mapAnchor(anchor: InsightAnchor, mapPos: (pos: number, assoc: number) => number): InsightAnchor {
+  const from = mapPos(anchor.from, 1);
+  const to = Math.max(from, mapPos(anchor.to, -1));
+  return { from, to, text: anchor.text };
+}
+
+/**
+ * Offset right after the anchored paragraph, or null if it can't be found any more
+ * The offsets are trusted if they still hold the text, then the text is searched
+ * for, and failing that the paragraph now at the anchored spot is used.
+ */
+export function resolveAnchor(content: string, anchor: InsightAnchor): number | null {
+  if (content.slice(anchor.from, anchor.to) === anchor.text) {
+    return paragraphEnd(content, anchor.to);
+  }
+
+  const found = findParagraph(content, anchor.text, anchor.from);
+  if (found) {
+    return paragraphEnd(content, found.to);
+  }
+
+  // Edited since - the offsets still point into what became of the paragraph
+  if (anchor.to > anchor.from && anchor.to <= content.length && content.slice(anchor.from, anchor.to).trim()) {
+    return paragraphEnd(content, anchor.to);
+  }
+  return null;
+}
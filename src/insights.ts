@@ -0,0 +1,317 @@
+/**
+ * Every insight the agents have offered, kept per note in plugin data
+ * Pending ones light up the orb; dismissed and inserted ones stay in the history
+ * so they can be found again from the Insights view. They survive restarts and
+ * move with their note when it is renamed. Only pending ones keep the reasoning
+ * and tool calls behind them, which nothing shows once an insight is settled.
+ */
+
+import type { AgentResponse } from './agentResponse';
+import { dayKey } from './usage';
+import { InsightAnchor, mapAnchor } from './insightAnchor';
+
+const MAX_PER_NOTE = 500; // Oldest unpinned insights are dropped beyond this
+const MAX_TOTAL = 2000; // ...and beyond this across all notes, which share data.json
+const MAX_TRIGGER_LENGTH = 2000;
+
+/**
+ * pending - waiting on the orb
+ * dismissed - cleared from the orb without being used
+ * inserted - written into the note
+ */
+export type InsightStatus = 'pending' | 'dismissed' | 'inserted';
+
+export interface InsightRating {
+  helpful: boolean;
+  comment: string;
+  timestamp: number;
+}
+
+export interface Insight extends Omit<AgentResponse, 'usage'> {
+  id: string;
+  notePath: string;
+  agentId: string;
+  /** What the user had written that the agent was responding to */
+  trigger: string;
+  timestamp: number;
+  status: InsightStatus;
+  pinned: boolean;
+  /** Hidden from the Insights view unless archived ones are shown */
+  archived: boolean;
+  /** How the user rated it, fed back to the agent */
+  rating?: InsightRating;
+  /** The paragraph it reacted to, where it is inserted */
+  anchor?: InsightAnchor;
+}
+
+export interface InsightDayGroup {
+  /** Local date, YYYY-MM-DD */
+  day: string;
+  insights: Insight[];
+}
+
+export interface InsightNoteGroup {
+  notePath: string;
+  days: InsightDayGroup[];
+}
+
+/**
+ * Whether a path is the given path or inside it (for folder renames and deletes)
+ */
+function isAtOrUnder(path: string, target: string): boolean {
+  return path === target || path.startsWith(target + '/');
+}
+
+/**
+ * Forget what led to an insight - tool results especially can be long
+ */
+function dropSteps(insight: Insight) {
+  insight.reasoning = [];
+  insight.toolCalls = [];
+}
+
+/**
+ * Insights whose text, trigger or note matches every word of the query
+ */
+export function searchInsights(insights: Insight[], query: string): Insight[] {
+  const words = query.toLowerCase().split(/\s+/).filter(w => w !== '');
+  if (words.length === 0) return insights;
+  return insights.filter(insight => {
+    const haystack = `${insight.text}\n${insight.trigger}\n${insight.notePath}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+/**
+ * Group insights by note, then by day - newest notes and days first
+ */
+export function groupInsights(insights: Insight[]): InsightNoteGroup[] {
+  const sorted = insights.slice().sort((a, b) => b.timestamp - a.timestamp);
+  const groups: InsightNoteGroup[] = [];
+  const byNote = new Map<string, InsightNoteGroup>();
+
+  for (const insight of sorted) {
+    let group = byNote.get(insight.notePath);
+    if (!group) {
+      group = { notePath: insight.notePath, days: [] };
+      byNote.set(insight.notePath, group);
+      groups.push(group);
+    }
+    const day = dayKey(new Date(insight.timestamp));
+    const last = group.days[group.days.length - 1];
+    if (last && last.day === day) {
+      last.insights.push(insight);
+    } else {
+      group.days.push({ day, insights: [insight] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Insight history over a caller-owned record keyed by note path (the plugin settings)
+ */
+export class InsightStore {
+  private notes: Record<string, Insight[]>;
+  private save: () => Promise<void>;
+
+  constructor(notes: Record<string, Insight[]>, save: () => Promise<void>) {
+    this.notes = notes;
+    this.save = save;
+
+    // Insights saved before there was a history were all waiting on the orb
+    for (const path of Object.keys(notes)) {
+      for (const insight of notes[path]) {
+        insight.status = insight.status ?? 'pending';
+        insight.pinned = insight.pinned ?? false;
+        insight.archived = insight.archived ?? false;
+        if (insight.status !== 'pending') {
+          dropSteps(insight);
+        }
+      }
+    }
+  }
+
+  /**
+   * Insights waiting on the orb for a note
+   */
+  pending(path: string): Insight[] {
+    return (this.notes[path] ?? []).filter(i => i.status === 'pending' && !i.archived);
+  }
+
+  /**
+   * Every insight in every note
+   */
+  all(): Insight[] {
+    const insights: Insight[] = [];
+    for (const path of Object.keys(this.notes)) {
+      insights.push(...this.notes[path]);
+    }
+    return insights;
+  }
+
+  async add(
+    notePath: string,
+    agentId: string,
+    response: AgentResponse,
+    trigger: string,
+    anchor?: InsightAnchor,
+    now: number = Date.now()
+  ): Promise<Insight> {
+    const insight: Insight = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      notePath,
+      agentId,
+      text: response.text,
+      reasoning: response.reasoning,
+      toolCalls: response.toolCalls,
+      trigger: trigger.length > MAX_TRIGGER_LENGTH ? trigger.slice(0, MAX_TRIGGER_LENGTH) + '…' : trigger,
+      timestamp: now,
+      status: 'pending',
+      pinned: false,
+      archived: false,
+    };
+    if (anchor) {
+      insight.anchor = anchor;
+    }
+
+    const history = this.notes[notePath] ?? [];
+    history.push(insight);
+    while (history.length > MAX_PER_NOTE) {
+      const oldest = history.findIndex(i => !i.pinned);
+      if (oldest === -1) break;
+      history.splice(oldest, 1);
+    }
+    this.notes[notePath] = history;
+    this.trimHistory();
+    await this.save();
+    return insight;
+  }
+
+  /**
+   * Drop the oldest unpinned insights of any note until the whole history fits
+   */
+  private trimHistory() {
+    let total = 0;
+    for (const path of Object.keys(this.notes)) {
+      total += this.notes[path].length;
+    }
+
+    while (total > MAX_TOTAL) {
+      let oldest: { path: string; index: number; timestamp: number } | null = null;
+      for (const path of Object.keys(this.notes)) {
+        const index = this.notes[path].findIndex(i => !i.pinned);
+        if (index === -1) continue;
+        const timestamp = this.notes[path][index].timestamp;
+        if (!oldest || timestamp < oldest.timestamp) {
+          oldest = { path, index, timestamp };
+        }
+      }
+      if (!oldest) break;
+
+      this.notes[oldest.path].splice(oldest.index, 1);
+      if (this.notes[oldest.path].length === 0) {
+        delete this.notes[oldest.path];
+      }
+      total--;
+    }
+  }
+
+  /**
+   * Clear a note's pending insights from the orb - they stay in the history
+   */
+  async dismiss(notePath: string): Promise<void> {
+    await this.settle(this.pending(notePath), 'dismissed');
+  }
+
+  /**
+   * Record that insights were written into a note
+   */
+  async markInserted(insights: Insight[]): Promise<void> {
+    await this.settle(insights, 'inserted');
+  }
+
+  /**
+   * Clear particular insights from the orb
+   */
+  async markDismissed(insights: Insight[]): Promise<void> {
+    await this.settle(insights, 'dismissed');
+  }
+
+  async setPinned(insight: Insight, pinned: boolean): Promise<void> {
+    insight.pinned = pinned;
+    await this.save();
+  }
+
+  async rate(insight: Insight, helpful: boolean, comment: string = '', now: number = Date.now()): Promise<void> {
+    insight.rating = { helpful, comment, timestamp: now };
+    await this.save();
+  }
+
+  /**
+   * Follow an edit to a note with the anchors of its pending insights
+   * This runs on every keystroke, so it doesn't save - returns whether anything moved.
+   */
+  mapAnchors(notePath: string, mapPos: (pos: number, assoc: number) => number): boolean {
+    let moved = false;
+    for (const insight of this.pending(notePath)) {
+      if (!insight.anchor) continue;
+      const mapped = mapAnchor(insight.anchor, mapPos);
+      if (mapped.from !== insight.anchor.from || mapped.to !== insight.anchor.to) {
+        insight.anchor = mapped;
+        moved = true;
+      }
+    }
+    return moved;
+  }
+
+  async setArchived(insight: Insight, archived: boolean): Promise<void> {
+    insight.archived = archived;
+    await this.save();
+  }
+
+  /**
+   * Move the history of a renamed note, or of every note in a renamed folder
+   */
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    let changed = false;
+    for (const path of Object.keys(this.notes)) {
+      if (!isAtOrUnder(path, oldPath)) continue;
+      const movedPath = newPath + path.slice(oldPath.length);
+      const history = this.notes[path];
+      delete this.notes[path];
+      for (const insight of history) {
+        insight.notePath = movedPath;
+      }
+      this.notes[movedPath] = (this.notes[movedPath] ?? []).concat(history);
+      changed = true;
+    }
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Drop the history of a deleted note or folder
+   */
+  async remove(path: string): Promise<void> {
+    let changed = false;
+    for (const notePath of Object.keys(this.notes)) {
+      if (!isAtOrUnder(notePath, path)) continue;
+      delete this.notes[notePath];
+      changed = true;
+    }
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  private async settle(insights: Insight[], status: InsightStatus): Promise<void> {
+    if (insights.length === 0) return;
+    for (const insight of insights) {
+      insight.status = status;
+      dropSteps(insight);
+    }
+    await this.save();
+  }
+}
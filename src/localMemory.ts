@@ -0,0 +1,76 @@
+/**
+ * Prompt and memory helpers for the local (OpenAI-compatible) backend
+ */
+
+import type { MemoryBlock } from './TherapistBackend';
+
+export const REMEMBER_MARKER = '[remember]';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Build the system prompt from core memory blocks and any recalled memories
+ */
+export function buildSystemPrompt(blocks: MemoryBlock[], recalled: string[]): string {
+  const sections = blocks.map(block => `<${block.label}>\n${block.value}\n</${block.label}>`);
+
+  if (recalled.length > 0) {
+    sections.push(`<recalled_memories>\n${recalled.map(r => `- ${r}`).join('\n')}\n</recalled_memories>`);
+  }
+
+  sections.push(
+    `If you learn something lasting about the user that is worth remembering for future sessions, ` +
+    `end your reply with a separate line starting with ${REMEMBER_MARKER} followed by the fact. ` +
+    `The user never sees these lines.`
+  );
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Split a model reply into the visible text and any facts it asked to remember
+ */
+export function extractRememberLines(reply: string): { text: string; memories: string[] } {
+  const memories: string[] = [];
+  const kept: string[] = [];
+
+  for (const line of reply.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.toLowerCase().startsWith(REMEMBER_MARKER)) {
+      const fact = trimmed.slice(REMEMBER_MARKER.length).trim();
+      if (fact) memories.push(fact);
+    } else {
+      kept.push(line);
+    }
+  }
+
+  return { text: kept.join('\n').trim(), memories };
+}
+
+/**
+ * Rank stored texts by how many of the query's words they share
+ * A deliberately simple stand-in for embedding search
+ */
+export function rankByKeywords(query: string, texts: string[], limit: number): string[] {
+  const words = (value: string) => new Set(
+    value.toLowerCase().split(/[\s.,;:!?"'()[\]{}<>\/\\-]+/).filter(w => w.length > 3)
+  );
+  const queryWords = words(query);
+  if (queryWords.size === 0) return [];
+
+  return texts
+    .map(text => {
+      let score = 0;
+      for (const word of words(text)) {
+        if (queryWords.has(word)) score++;
+      }
+      return { text, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.text);
+}
@@ -1,23 +1,149 @@
-import { Plugin, MarkdownView, Editor, debounce, Notice, TFile } from 'obsidian';
+import { Plugin, MarkdownView, MarkdownRenderer, Component, Editor, Keymap, debounce, editorInfoField, moment, Notice, TFile, normalizePath } from 'obsidian';
+import { EditorView } from '@codemirror/view';
 import { TherapistSettingTab, TherapistSettings, DEFAULT_SETTINGS } from './settings';
 import { LettaService } from './LettaService';
-import { getNewContent, isTherapistResponse, formatResponse, getJournalContent } from './contentParser';
+import { LocalBackend, LOCAL_AGENT_ID } from './LocalBackend';
+import type { Passage, TherapistBackend } from './TherapistBackend';
+import { getNewContent, formatResponse, getJournalContent } from './contentParser';
+import { ObservedNotes, formatChanges, hashParagraph } from './observedContent';
+import { Insight, InsightStore } from './insights';
+import { InsightAnchor, findParagraph, resolveAnchor } from './insightAnchor';
+import { InlineInsights, createInlineInsights } from './inlineInsights';
+import { InsightsView, VIEW_TYPE_INSIGHTS } from './InsightsView';
+import { ChatView, VIEW_TYPE_CHAT } from './ChatView';
+import { MoodChartView, VIEW_TYPE_MOOD } from './MoodChartView';
+import { MOOD_READER_PERSONA, MoodPoint, moodFromFrontmatter, moodPrompt, parseMoodReading, writeMoodFrontmatter } from './mood';
+import { chatPrompt } from './chatHistory';
+import { DailyNoteOptions, dailyNoteName, dailyNoteOptions, dailyNotePath, fillDailyTemplate, journalInsertion } from './dailyNote';
+import { JournalEntry, ReviewPeriod, buildReviewPrompt, reviewDue, reviewNoteContent, reviewSince } from './review';
+import { FEEDBACK_BLOCK, shouldSyncFeedback, summarizeFeedback } from './feedback';
 import { MemoryViewerModal } from './MemoryViewerModal';
+import { StreamingResponseWriter } from './StreamingResponseWriter';
+import { describeError, isRetryable, isSafeToResend, LettaAuthError, LettaNotFoundError } from './errors';
+import { OfflineQueue, QueuedMessage, QueuedMessageKind } from './OfflineQueue';
+import { AgentResponse, hasSteps, isMemoryEdit, describeToolCall } from './agentResponse';
+import { exportAgent } from './AgentBackup';
+import { findAgent, resolveAgentId } from './agentRouting';
+import { AgentSuggestModal } from './AgentSuggestModal';
+import { PersonaEditorModal } from './PersonaEditorModal';
+import { PERSONA_TEMPLATES, getPersonaTemplate, parsePersonaFile, personaFileName } from './personas';
+import { NoteOverrides, hasOverrides, parseNoteOverrides, withNotePersona } from './noteOverrides';
+import { PassphraseModal } from './PassphraseModal';
+import { SecretStore } from './secrets';
+import { BudgetState, DELETED_AGENT_ID, UsageTracker } from './usage';
+import { UsageReportModal } from './UsageReportModal';
+
+const OUTBOX_RETRY_MS = 30000;
+const FEEDBACK_CHECK_MS = 60 * 60 * 1000;
+const REVIEW_CHECK_MS = 60 * 60 * 1000;
+const MOOD_IDLE_MS = 30 * 60 * 1000; // A journal left alone this long is read for its mood
+// Per-vault local storage, which is not synced with data.json
+const DEVICE_KEY_STORAGE = 'therapist-device-key';
 
 export default class TherapistPlugin extends Plugin {
   settings: TherapistSettings;
   lettaService: LettaService;
+  localBackend: LocalBackend;
+  backend: TherapistBackend;
+  outbox: OfflineQueue;
+  secrets: SecretStore;
+  usage: UsageTracker;
+  observed: ObservedNotes;
+  insights: InsightStore;
+  inlineInsights: InlineInsights;
   private isProcessing: boolean = false;
   private statusBarEl: HTMLElement | null = null;
-  private pendingInsights: string[] = [];
   private indicatorEl: HTMLElement | null = null;
   private popoverEl: HTMLElement | null = null;
   private popoverVisible: boolean = false;
+  private popoverComponent: Component | null = null;
+  private streamController: AbortController | null = null;
+  private streamWriter: StreamingResponseWriter | null = null;
+  private lastObserverError: string | null = null;
+  private lastBudgetState: BudgetState = 'ok';
+  private reviewInProgress: boolean = false;
+  // Timers for the notes in settings.moodPending, and the day each one's mood was last read
+  private moodTimers = new Map<string, number>();
+  private moodReadOn = new Map<string, string>();
 
   async onload() {
     await this.loadSettings();
 
-    this.lettaService = new LettaService(this.settings.lettaUrl, this.settings.apiKey);
+    this.secrets = new SecretStore(
+      this.settings,
+      {
+        load: () => this.app.loadLocalStorage(DEVICE_KEY_STORAGE),
+        save: (key) => this.app.saveLocalStorage(DEVICE_KEY_STORAGE, key),
+      },
+      () => this.saveSettings()
+    );
+    const secretStatus = await this.secrets.load();
+    if (secretStatus === 'locked') {
+      new Notice('Therapist: API keys are locked — run "Unlock therapist API keys"', 8000);
+    } else if (secretStatus === 'unreadable') {
+      new Notice('Therapist: some API keys were encrypted on another device — enter them again in settings', 8000);
+    }
+
+    this.lettaService = new LettaService(this.settings.lettaUrl, this.secrets.get('apiKey'));
+    this.localBackend = new LocalBackend(this.app, {
+      url: this.settings.localUrl,
+      model: this.settings.localModel,
+      apiKey: this.secrets.get('localApiKey'),
+      folder: this.settings.localMemoryFolder,
+    });
+    this.updateBackend();
+    if (this.settings.backend === 'letta') {
+      // Read the server version up front so requests use the right endpoint shapes
+      this.lettaService.getServerInfo().catch(error => console.warn('Letta server not reachable:', error));
+    }
+    this.outbox = new OfflineQueue(this.settings.outbox, () => this.saveSettings());
+    this.usage = new UsageTracker(this.settings.usage, () => this.saveSettings());
+    this.observed = new ObservedNotes(this.settings.observedNotes, () => this.saveSettings());
+    this.insights = new InsightStore(this.settings.insights, async () => {
+      await this.saveSettings();
+      this.refreshInsightViews();
+      this.inlineInsights.refresh();
+    });
+
+    // Pending insights beside their paragraphs, when that display is turned on
+    this.inlineInsights = createInlineInsights({
+      enabled: () => this.settings.inlineInsights,
+      insightsFor: (path, content) => this.insights.pending(path)
+        .filter(insight => insight.anchor)
+        .map(insight => ({
+          id: insight.id,
+          pos: resolveAnchor(content, insight.anchor!) ?? -1,
+          title: this.getAgentName(insight.agentId),
+          text: insight.text,
+        })),
+      renderMarkdown: (text, el, path, component) => {
+        MarkdownRenderer.render(this.app, text, el, path, component);
+      },
+      accept: (id, view) => this.settleInlineInsight(id, view, true),
+      dismiss: (id, view) => this.settleInlineInsight(id, view, false),
+    });
+    this.registerEditorExtension(this.inlineInsights.extension);
+
+    this.registerView(VIEW_TYPE_INSIGHTS, (leaf) => new InsightsView(leaf, this));
+    this.registerView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
+    this.registerView(VIEW_TYPE_MOOD, (leaf) => new MoodChartView(leaf, this));
+
+    // Keep insight anchors on their paragraphs while the note is edited
+    this.registerEditorExtension(EditorView.updateListener.of((update) => {
+      if (!update.docChanged) return;
+      const info = update.state.field(editorInfoField, false);
+      const length = update.startState.doc.length;
+      // ...and a streaming reply on its own text while the user edits around it
+      if (this.streamWriter?.writesTo(info?.editor)) {
+        this.streamWriter.mapChanges((pos, assoc) => update.changes.mapPos(Math.min(pos, length), assoc));
+      }
+      const file = info?.file;
+      if (!file) return;
+      // Not saved per keystroke - a stale anchor is found again by its text, and
+      // the moved offsets go out with the next save or when the plugin unloads
+      this.insights.mapAnchors(file.path, (pos, assoc) => update.changes.mapPos(Math.min(pos, length), assoc));
+    }));
+    this.lastBudgetState = this.getBudgetState();
 
     // Add settings tab
     this.addSettingTab(new TherapistSettingTab(this.app, this));
@@ -33,7 +159,7 @@ export default class TherapistPlugin extends Plugin {
     this.registerEvent(
       this.app.workspace.on('editor-change', (editor: Editor, view: MarkdownView) => {
         if (!this.settings.enabled) return;
-        if (!this.settings.agentId) return;
+        if (!this.getAgentId()) return;
         debouncedObserver(editor, view);
       })
     );
@@ -47,13 +173,74 @@ export default class TherapistPlugin extends Plugin {
       }
     });
 
+    // Add command to chart the mood readings in frontmatter
+    this.addCommand({
+      id: 'open-mood-chart',
+      name: 'Open mood chart',
+      callback: () => {
+        this.activateMoodView();
+      }
+    });
+
+    // Add command to start today's journal entry with a prompt from the agent
+    this.addCommand({
+      id: 'start-journal-session',
+      name: 'Start journaling session',
+      callback: () => {
+        this.startJournalSession();
+      }
+    });
+
+    // Add commands to review the journal
+    this.addCommand({
+      id: 'weekly-review',
+      name: 'Write weekly review',
+      callback: () => {
+        this.runReview('weekly');
+      }
+    });
+
+    this.addCommand({
+      id: 'monthly-review',
+      name: 'Write monthly review',
+      callback: () => {
+        this.runReview('monthly');
+      }
+    });
+
+    // Add command to unlock passphrase-protected API keys
+    this.addCommand({
+      id: 'unlock-secrets',
+      name: 'Unlock therapist API keys',
+      checkCallback: (checking: boolean) => {
+        if (!this.secrets.isLocked) return false;
+        if (!checking) {
+          this.unlockSecrets();
+        }
+        return true;
+      }
+    });
+
+    // Add command to stop a response that is still streaming in
+    this.addCommand({
+      id: 'stop-response',
+      name: 'Stop therapist response',
+      checkCallback: (checking: boolean) => {
+        if (!this.streamController) return false;
+        if (!checking) {
+          this.streamController.abort();
+        }
+        return true;
+      }
+    });
+
     // Add command to insert insight at cursor
     this.addCommand({
       id: 'insert-insight',
-      name: 'Insert insight at cursor',
+      name: 'Insert insights into note',
       editorCallback: (editor: Editor) => {
-        if (this.pendingInsights.length > 0) {
-          this.insertInsightAtCursor(editor);
+        if (this.currentInsights().length > 0) {
+          this.insertPendingInsights(editor);
         } else {
           new Notice('No insights available');
         }
@@ -67,7 +254,6 @@ export default class TherapistPlugin extends Plugin {
       callback: () => {
         this.settings.enabled = !this.settings.enabled;
         if (!this.settings.enabled) {
-          this.pendingInsights = [];
           this.hideIndicator();
         } else {
           this.checkCurrentNote();
@@ -78,6 +264,72 @@ export default class TherapistPlugin extends Plugin {
       }
     });
 
+    // Add command to pick another agent for the current note
+    this.addCommand({
+      id: 'switch-agent',
+      name: 'Switch agent for this note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || this.settings.backend !== 'letta' || !this.settings.agentId) return false;
+        if (!checking) {
+          this.switchNoteAgent(file);
+        }
+        return true;
+      }
+    });
+
+    // Add command to edit the persona of the agent answering in this note
+    this.addCommand({
+      id: 'edit-persona',
+      name: 'Edit therapist persona',
+      callback: () => {
+        this.editPersona(this.getActiveAgentId());
+      }
+    });
+
+    // Add command to open the insight history
+    this.addCommand({
+      id: 'open-insights',
+      name: 'Open insights sidebar',
+      callback: () => {
+        this.activateInsightsView();
+      }
+    });
+
+    // Add command to talk to the agent outside the notes
+    this.addCommand({
+      id: 'open-chat',
+      name: 'Open chat panel',
+      callback: () => {
+        this.activateChatView();
+      }
+    });
+
+    // Add command to pass insight ratings on right away
+    this.addCommand({
+      id: 'sync-feedback',
+      name: 'Send insight ratings to therapist',
+      callback: async () => {
+        try {
+          const updated = await this.syncFeedback(true);
+          new Notice(updated > 0
+            ? `Feedback sent to ${updated} agent${updated > 1 ? 's' : ''}`
+            : 'No rated insights yet');
+        } catch (error) {
+          new Notice(`Failed to send feedback: ${describeError(error)}`);
+        }
+      }
+    });
+
+    // Add command to show what the therapist has cost
+    this.addCommand({
+      id: 'show-usage',
+      name: 'Show therapist usage and costs',
+      callback: () => {
+        this.openUsageReport();
+      }
+    });
+
     // Add command to view memory
     this.addCommand({
       id: 'view-memory',
@@ -87,12 +339,21 @@ export default class TherapistPlugin extends Plugin {
       }
     });
 
+    // Add command to back up the agent into the vault
+    this.addCommand({
+      id: 'export-agent',
+      name: 'Export therapist to backup file',
+      callback: () => {
+        this.exportAgent();
+      }
+    });
+
     // Add command to reindex vault
     this.addCommand({
       id: 'reindex-vault',
       name: 'Reindex vault for therapist',
       callback: async () => {
-        if (!this.settings.agentId) {
+        if (!this.getAgentId()) {
           new Notice('No therapist agent configured');
           return;
         }
@@ -100,13 +361,38 @@ export default class TherapistPlugin extends Plugin {
           new Notice('Vault indexing is not enabled');
           return;
         }
+        const mismatch = await this.checkEmbeddingMismatch().catch(() => null);
+        if (mismatch) {
+          new Notice(`Your notes were embedded with ${mismatch.archive} but the therapist uses ${mismatch.agent}. Run "Re-embed vault for therapist" instead.`, 10000);
+          return;
+        }
         new Notice('Starting vault indexing...');
         try {
           await this.indexVault();
           new Notice('Vault indexed successfully');
         } catch (error) {
           console.error('Indexing failed:', error);
-          new Notice(`Indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          new Notice(`Indexing failed: ${describeError(error)}`);
+        }
+      }
+    });
+
+    // Add command to rebuild the vault archive with the agent's embedding model
+    this.addCommand({
+      id: 'reembed-vault',
+      name: 'Re-embed vault for therapist',
+      callback: async () => {
+        if (this.settings.backend !== 'letta' || !this.settings.agentId) {
+          new Notice('No Letta agent configured');
+          return;
+        }
+        new Notice('Re-embedding vault...');
+        try {
+          await this.reembedVault();
+          new Notice('Vault re-embedded');
+        } catch (error) {
+          console.error('Re-embedding failed:', error);
+          new Notice(`Re-embedding failed: ${describeError(error)}`);
         }
       }
     });
@@ -128,6 +414,40 @@ export default class TherapistPlugin extends Plugin {
       })
     );
 
+    // Frontmatter overrides take effect as soon as they are typed
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) => {
+        if (file === this.app.workspace.getActiveFile() && !this.isProcessing) {
+          this.checkCurrentNote();
+        }
+      })
+    );
+
+    // Per-note agent choices, observed paragraphs and insights follow their notes
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        this.observed.rename(oldPath, file.path);
+        this.insights.rename(oldPath, file.path);
+        this.renameMoodPending(oldPath, file.path);
+        const agentId = this.settings.noteAgents[oldPath];
+        if (agentId === undefined) return;
+        delete this.settings.noteAgents[oldPath];
+        this.settings.noteAgents[file.path] = agentId;
+        this.saveSettings();
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        this.observed.remove(file.path);
+        this.insights.remove(file.path);
+        this.renameMoodPending(file.path, null);
+        if (this.settings.noteAgents[file.path] === undefined) return;
+        delete this.settings.noteAgents[file.path];
+        this.saveSettings();
+      })
+    );
+
     // Click outside to dismiss popover
     this.registerDomEvent(document, 'click', (e: MouseEvent) => {
       if (this.popoverVisible && this.indicatorEl) {
@@ -137,14 +457,163 @@ export default class TherapistPlugin extends Plugin {
       }
     });
 
+    // Replay anything queued while the server was unreachable
+    this.registerInterval(window.setInterval(() => this.flushOutbox(), OUTBOX_RETRY_MS));
+    this.flushOutbox();
+
+    // Ratings reach the agents in batches, or daily if only a few came in
+    const syncFeedback = () => this.syncFeedback().catch(error => console.warn('Failed to sync insight feedback:', error));
+    this.registerInterval(window.setInterval(syncFeedback, FEEDBACK_CHECK_MS));
+    syncFeedback();
+
+    // Scheduled reviews are written in the background once they are due - not
+    // before the vault has loaded, or the week's notes wouldn't all be there
+    this.app.workspace.onLayoutReady(() => {
+      this.registerInterval(window.setInterval(() => this.runScheduledReview(), REVIEW_CHECK_MS));
+      this.runScheduledReview();
+      // Entries closed before they settled are read now, or once they have
+      for (const path of Object.keys(this.settings.moodPending)) {
+        this.startMoodTimer(path, this.settings.moodPending[path] + MOOD_IDLE_MS - Date.now());
+      }
+    });
+
+    this.register(() => this.moodTimers.forEach(timer => window.clearTimeout(timer)));
+
     this.checkCurrentNote();
     console.log('Therapist plugin loaded');
   }
 
+  /**
+   * Point the plugin at the backend selected in settings
+   */
+  updateBackend() {
+    this.backend = this.settings.backend === 'local' ? this.localBackend : this.lettaService;
+  }
+
+  /**
+   * Ask for the passphrase and hand the decrypted keys to the backends
+   */
+  unlockSecrets(onUnlock?: () => void) {
+    new PassphraseModal(this.app, 'Unlock API keys', false, async (passphrase) => {
+      if (!(await this.secrets.unlock(passphrase))) {
+        return 'Wrong passphrase';
+      }
+      this.applySecrets();
+      new Notice('API keys unlocked');
+      onUnlock?.();
+      return null;
+    }).open();
+  }
+
+  /**
+   * Give the backends the current decrypted keys
+   */
+  applySecrets() {
+    this.lettaService.setApiKey(this.secrets.get('apiKey'));
+    this.localBackend.setOptions({ apiKey: this.secrets.get('localApiKey') });
+  }
+
+  /**
+   * The agent messages go to - the local backend always has one
+   * With a note, other agents can claim it by folder or a per-note choice.
+   */
+  getAgentId(file?: TFile | null): string {
+    if (this.settings.backend === 'local') return LOCAL_AGENT_ID;
+    if (!file || !this.settings.agentId) return this.settings.agentId;
+
+    // therapist-agent in the note's frontmatter beats everything else
+    const { agent } = this.getNoteOverrides(file);
+    if (agent) {
+      const agentId = findAgent(agent, { id: this.settings.agentId, name: this.settings.therapistName }, this.settings.agents);
+      if (agentId) return agentId;
+    }
+
+    return resolveAgentId(file.path, {
+      defaultAgentId: this.settings.agentId,
+      agents: this.settings.agents,
+      noteAgents: this.settings.noteAgents,
+    });
+  }
+
+  /**
+   * Therapist settings from a note's frontmatter
+   */
+  getNoteOverrides(file?: TFile | null): NoteOverrides {
+    if (!file) return {};
+    return parseNoteOverrides(this.app.metadataCache.getFileCache(file)?.frontmatter);
+  }
+
+  /**
+   * Add the note's therapist-persona to a prompt, if it names one that exists
+   * The value can be a template (id or name) or a note in the persona folder.
+   */
+  private async applyNotePersona(file: TFile | null, prompt: string): Promise<string> {
+    const { persona } = this.getNoteOverrides(file);
+    if (!persona || !file) return prompt;
+
+    const wanted = persona.toLowerCase();
+    const template = getPersonaTemplate(wanted) ?? PERSONA_TEMPLATES.find(t => t.name.toLowerCase() === wanted);
+    if (template) {
+      return withNotePersona(prompt, template.persona);
+    }
+
+    const personaFile = this.app.metadataCache.getFirstLinkpathDest(persona, file.path)
+      ?? this.app.vault.getAbstractFileByPath(normalizePath(`${this.settings.personaFolder}/${personaFileName(persona)}`));
+    if (!(personaFile instanceof TFile)) {
+      console.warn(`Persona "${persona}" in ${file.path} not found`);
+      return prompt;
+    }
+    try {
+      return withNotePersona(prompt, parsePersonaFile(await this.app.vault.read(personaFile)));
+    } catch (error) {
+      console.warn(`Could not read persona ${personaFile.path}:`, error);
+      return prompt;
+    }
+  }
+
+  /**
+   * Name shown on replies from an agent
+   */
+  getAgentName(agentId: string): string {
+    if (agentId === DELETED_AGENT_ID) return 'Deleted agent';
+    const profile = this.settings.agents.find(a => a.id === agentId);
+    return profile ? profile.name : this.settings.therapistName;
+  }
+
+  /**
+   * The agent that answers in the active note
+   */
+  private getActiveAgentId(): string {
+    return this.getAgentId(this.app.workspace.getActiveFile());
+  }
+
+  /**
+   * Let the user pick which agent answers in a note
+   */
+  private switchNoteAgent(file: TFile) {
+    const current = this.settings.noteAgents[file.path];
+    const choices = [
+      { id: '', name: 'Folder default' },
+      { id: this.settings.agentId, name: this.settings.therapistName },
+      ...this.settings.agents.map(a => ({ id: a.id, name: `${a.name} (${a.role})` })),
+    ];
+
+    new AgentSuggestModal(this.app, choices, current ?? '', async (choice) => {
+      if (choice.id) {
+        this.settings.noteAgents[file.path] = choice.id;
+      } else {
+        delete this.settings.noteAgents[file.path];
+      }
+      await this.saveSettings();
+      new Notice(`${file.basename}: ${this.getAgentName(this.getAgentId(file))} will respond here`);
+      this.checkCurrentNote();
+    }).open();
+  }
+
   private checkCurrentNote() {
     this.hidePopover();
 
-    if (!this.settings.enabled || !this.settings.agentId) {
+    if (!this.settings.enabled || !this.getAgentId()) {
       this.hideIndicator();
       this.updateStatusBar();
       return;
@@ -166,7 +635,7 @@ export default class TherapistPlugin extends Plugin {
     }
 
     // Show orb - with insight state if we have queued insights
-    if (this.pendingInsights.length > 0) {
+    if (this.currentInsights().length > 0) {
       this.showIndicator('insight');
       this.updateStatusBar('insight');
     } else {
@@ -183,71 +652,190 @@ export default class TherapistPlugin extends Plugin {
       return;
     }
 
-    if (!this.settings.agentId) {
+    if (!this.getAgentId()) {
       this.statusBarEl.setText('○ No agent');
       return;
     }
 
+    const budgetState = this.getBudgetState();
+    if (budgetState === 'paused') {
+      this.statusBarEl.setText('○ Paused · over budget');
+      return;
+    }
+
+    const overrides = this.getNoteOverrides(this.app.workspace.getActiveFile());
+    let text: string;
     switch (state) {
       case 'thinking':
-        this.statusBarEl.setText('◉ Observing...');
+        text = '◉ Observing...';
         break;
       case 'insight':
-        this.statusBarEl.setText('💭 Has insight');
+        text = '💭 Has insight';
         break;
       case 'off':
-        this.statusBarEl.setText('○ Therapist off');
+        text = overrides.mode === 'converse' ? '◌ Talk only' : '○ Therapist off';
         break;
       default:
-        this.statusBarEl.setText('● Observing');
+        text = budgetState === 'manual-only' ? '◐ Manual only · near budget' : '● Observing';
+    }
+
+    // Say so when another agent is answering in this note
+    const agentId = this.getActiveAgentId();
+    if ((state !== 'off' || overrides.mode === 'converse') && agentId !== this.getAgentId()) {
+      text += ` · ${this.getAgentName(agentId)}`;
+    }
+
+    // Say so when the note's frontmatter changes what happens here
+    if (hasOverrides(overrides)) {
+      text += ' · set in note';
+    }
+
+    // Messages waiting for the server to come back
+    if (this.outbox?.size > 0) {
+      text += ` · ${this.outbox.size} queued`;
+    }
+
+    this.statusBarEl.setText(text);
+  }
+
+  /**
+   * Keep a message that failed transiently so it can be replayed later
+   * Returns false if the failure wasn't one worth retrying. Timeouts aren't queued:
+   * the server may have processed the message, and replaying it would duplicate it.
+   */
+  private async queueIfOffline(
+    error: unknown,
+    kind: QueuedMessageKind,
+    agentId: string,
+    content: string,
+    notePath: string,
+    trigger: string
+  ): Promise<boolean> {
+    if (!isSafeToResend(error)) return false;
+
+    await this.outbox.enqueue({
+      kind,
+      agentId,
+      notePath,
+      content,
+      trigger,
+      timestamp: Date.now(),
+    });
+    this.updateStatusBar();
+    return true;
+  }
+
+  /**
+   * Replay queued messages in order once the server is healthy again
+   * Replies can no longer go inline, so anything worth saying becomes an insight.
+   */
+  async flushOutbox(): Promise<void> {
+    if (this.outbox.size === 0 || this.outbox.isFlushing || this.isProcessing) return;
+    // A long outbox could spend a paused budget all over again
+    if (this.getBudgetState() === 'paused') return;
+    if (!(await this.backend.healthCheck())) return;
+
+    const dropped: string[] = [];
+    let delivered = 0;
+    try {
+      delivered = await this.outbox.flush(async (message: QueuedMessage) => {
+        const when = new Date(message.timestamp).toLocaleString();
+        const response = await this.backend.sendMessage(
+          message.agentId,
+          `[Written ${when} in "${message.notePath}" while you were offline]\n\n${message.content}`
+        );
+        await this.recordUsage(message.agentId, message.notePath, response);
+        const trimmed = response.text.trim();
+        if (trimmed && trimmed !== '[listening]') {
+          await this.insights.add(message.notePath, message.agentId, response, message.trigger ?? '');
+        }
+      }, (message, error) => dropped.push(`${message.notePath}: ${describeError(error)}`));
+    } catch (error) {
+      // The messages stay queued until whatever is wrong (e.g. the API key) is fixed
+      console.error('Could not send queued messages:', error);
+      this.reportObserverError(error);
     }
+
+    if (delivered > 0) {
+      new Notice(`Therapist caught up on ${delivered} queued message${delivered > 1 ? 's' : ''}`);
+    }
+    if (dropped.length > 0) {
+      new Notice(`Therapist dropped ${dropped.length} queued message${dropped.length > 1 ? 's' : ''} it could not deliver:\n${dropped.join('\n')}`, 10000);
+    }
+    this.checkCurrentNote();
   }
 
   // Passive observation - agent watches and may offer insights
   private async observeContent(editor: Editor, view: MarkdownView) {
     if (this.isProcessing) return;
-    if (!this.settings.agentId) return;
+    if (!this.getAgentId()) return;
+    // Near or over budget, only talk when asked
+    if (this.getBudgetState() !== 'ok') return;
 
     // Check if file is in allowed folders
     const file = view.file;
     if (file && !this.shouldObserveFile(file)) return;
 
+    // Only paragraphs the agent hasn't seen, so its context doesn't fill with repeats
     const fullContent = editor.getValue();
-    const newContent = getNewContent(fullContent);
-    if (!newContent) return;
-    if (isTherapistResponse(newContent)) return;
+    const notePath = file?.path ?? '';
+    const changes = this.observed.changes(notePath, fullContent);
+    if (changes.length === 0) return;
+
+    const agentId = this.getAgentId(file);
+    const trigger = formatChanges(changes);
+    const observerPrompt = await this.applyNotePersona(file, `[OBSERVER MODE - You are passively watching the user write. Only respond if you notice something genuinely insightful - a pattern, a reframe, a question worth asking, or an observation that could help. If nothing stands out, respond with just: [listening]]\n\n${trigger}`);
+
+    // Keep ordering: while older messages are waiting, this one waits behind them
+    if (this.outbox.size > 0) {
+      await this.outbox.enqueue({
+        kind: 'observe',
+        agentId,
+        notePath,
+        content: observerPrompt,
+        trigger,
+        timestamp: Date.now(),
+      });
+      await this.observed.markSent(notePath, fullContent);
+      this.updateStatusBar();
+      this.flushOutbox();
+      return;
+    }
 
     this.isProcessing = true;
     this.showIndicator('thinking');
     this.updateStatusBar('thinking');
+    let read = false;
 
     try {
-      const observerPrompt = `[OBSERVER MODE - You are passively watching the user write. Only respond if you notice something genuinely insightful - a pattern, a reframe, a question worth asking, or an observation that could help. If nothing stands out, respond with just: [listening]]\n\n${newContent}`;
-
-      const response = await this.lettaService.sendMessage(
-        this.settings.agentId,
-        observerPrompt
-      );
+      const response = await this.backend.sendMessage(agentId, observerPrompt);
+      await this.observed.markSent(notePath, fullContent);
+      await this.recordUsage(agentId, notePath, response);
+      read = true;
 
-      const trimmed = response?.trim() || '';
+      this.lastObserverError = null;
+      const trimmed = response.text.trim();
       if (trimmed && trimmed !== '[listening]') {
-        // Add to queue instead of replacing
-        this.pendingInsights.push(response);
+        // Add to the note's queue - the orb only lights up if that note is still open
+        const anchor = this.anchorTrigger(changes[changes.length - 1].text, fullContent, view, notePath);
+        await this.insights.add(notePath, agentId, response, trigger, anchor);
+      }
+      // Keep insight state if this note has queued insights
+      if (this.currentInsights().length > 0) {
         this.showIndicator('insight');
         this.updateStatusBar('insight');
       } else {
-        // Keep insight state if we have queued insights
-        if (this.pendingInsights.length > 0) {
-          this.showIndicator('insight');
-          this.updateStatusBar('insight');
-        } else {
-          this.showIndicator('observing');
-          this.updateStatusBar('listening');
-        }
+        this.showIndicator('observing');
+        this.updateStatusBar('listening');
       }
     } catch (error) {
       console.error('Error observing:', error);
-      if (this.pendingInsights.length > 0) {
+      if (await this.queueIfOffline(error, 'observe', agentId, observerPrompt, notePath, trigger)) {
+        await this.observed.markSent(notePath, fullContent);
+      } else {
+        this.reportObserverError(error);
+      }
+      if (this.currentInsights().length > 0) {
         this.showIndicator('insight');
         this.updateStatusBar('insight');
       } else {
@@ -257,15 +845,52 @@ export default class TherapistPlugin extends Plugin {
     } finally {
       this.isProcessing = false;
     }
+
+    if (read) {
+      this.scheduleMoodReading(file);
+    }
+  }
+
+  /**
+   * Anchor for the paragraph an observation reacted to
+   * The user may have kept typing while the agent thought, so the note as it is now
+   * is searched first; offsets in what was sent are the fallback.
+   */
+  private anchorTrigger(paragraph: string, sentContent: string, view: MarkdownView, notePath: string): InsightAnchor | undefined {
+    const sent = findParagraph(sentContent, paragraph);
+    if (view.file?.path === notePath) {
+      const current = findParagraph(view.editor.getValue(), paragraph, sent?.from);
+      if (current) return current;
+    }
+    return sent ?? undefined;
+  }
+
+  /**
+   * Tell the user why observation is failing, once per distinct problem
+   * The observer fires on every pause in typing, so repeating the notice would be noise.
+   */
+  private reportObserverError(error: unknown) {
+    const message = describeError(error);
+    if (message === this.lastObserverError) return;
+    this.lastObserverError = message;
+    new Notice(`Therapist: ${message}`, 8000);
   }
 
   // Manual trigger for inline conversation
   private async triggerConversation(editor: Editor, view: MarkdownView) {
     if (this.isProcessing) return;
-    if (!this.settings.agentId) {
+    if (!this.getAgentId()) {
       new Notice('No therapist agent configured');
       return;
     }
+    if (this.getBudgetState() === 'paused') {
+      new Notice('Therapist is paused — the usage budget is spent. Raise it in settings or wait for it to reset.');
+      return;
+    }
+    if (this.getNoteOverrides(view.file).mode === 'off') {
+      new Notice('Therapist is off in this note — remove "therapist: off" from its frontmatter to talk here');
+      return;
+    }
 
     const fullContent = editor.getValue();
     const newContent = getNewContent(fullContent);
@@ -278,61 +903,200 @@ export default class TherapistPlugin extends Plugin {
     this.showIndicator('thinking');
     this.updateStatusBar('thinking');
 
-    try {
-      const conversationPrompt = `[CONVERSATION MODE - The user wants to talk. Respond directly and helpfully.]\n\n${newContent}`;
+    const conversationPrompt = await this.applyNotePersona(
+      view.file,
+      `[CONVERSATION MODE - The user wants to talk. Respond directly and helpfully.]\n\n${newContent}`
+    );
 
-      const response = await this.lettaService.sendMessage(
-        this.settings.agentId,
-        conversationPrompt
-      );
+    const notePath = view.file?.path ?? '';
+    const agentId = this.getAgentId(view.file);
+
+    if (this.settings.streamResponses) {
+      await this.streamConversation(editor, agentId, conversationPrompt, notePath, newContent);
+      return;
+    }
+
+    let read = false;
+    try {
+      const response = await this.backend.sendMessage(agentId, conversationPrompt);
+      await this.observed.markSent(notePath, fullContent);
+      await this.recordUsage(agentId, notePath, response);
+      read = true;
 
-      const trimmed = response?.trim() || '';
+      const trimmed = response.text.trim();
       if (trimmed && trimmed !== '[listening]') {
         // Insert inline for conversation mode
         const cursor = editor.getCursor();
         const line = cursor.line;
         editor.setCursor({ line, ch: editor.getLine(line).length });
-        editor.replaceSelection(formatResponse(response, this.settings.therapistName));
+        editor.replaceSelection(formatResponse(response.text, this.getAgentName(agentId)));
       }
+      this.noticeMemoryEdits(response, agentId);
 
       this.showIndicator('observing');
       this.updateStatusBar('listening');
     } catch (error) {
       console.error('Error in conversation:', error);
-      new Notice('Failed to get response');
+      if (await this.queueIfOffline(error, 'conversation', agentId, conversationPrompt, notePath, newContent)) {
+        await this.observed.markSent(notePath, fullContent);
+        new Notice('Server unreachable — message queued, the reply will arrive as an insight');
+      } else {
+        new Notice(`Failed to get response: ${describeError(error)}`);
+      }
       this.showIndicator('observing');
       this.updateStatusBar('listening');
     } finally {
       this.isProcessing = false;
     }
-  }
 
-  private showIndicator(state: 'observing' | 'thinking' | 'insight') {
-    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-    if (!view) {
-      this.hideIndicator();
-      return;
+    if (read) {
+      this.scheduleMoodReading(view.file);
     }
+  }
 
-    const editorEl = view.contentEl;
+  // Conversation response written into the note token by token
+  private async streamConversation(editor: Editor, agentId: string, prompt: string, notePath: string, trigger: string) {
+    const writer = new StreamingResponseWriter(editor, this.getAgentName(agentId));
+    const controller = new AbortController();
+    this.streamController = controller;
+    this.streamWriter = writer;
+    let received = '';
 
-    if (!this.indicatorEl) {
-      this.indicatorEl = document.createElement('div');
-      this.indicatorEl.className = 'therapist-indicator is-visible';
+    writer.begin();
+    let read = false;
 
-      const orb = document.createElement('div');
-      orb.className = 'therapist-orb';
-      orb.addEventListener('click', (e) => {
-        e.stopPropagation();
-        if (this.pendingInsight) {
-          this.togglePopover();
+    try {
+      const response = await this.backend.sendMessageStream(
+        agentId,
+        prompt,
+        (text) => {
+          received = text;
+          writer.update(text);
+        },
+        controller.signal
+      );
+      writer.finish(response.text);
+      await this.observed.markSent(notePath, editor.getValue());
+      this.noticeMemoryEdits(response, agentId);
+      await this.recordUsage(agentId, notePath, response);
+      read = true;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped it
+        writer.finish(received);
+        await this.observed.markSent(notePath, editor.getValue());
+        new Notice('Response stopped');
+      } else {
+        console.error('Error in conversation:', error);
+        writer.finish(received);
+        // Only queue if nothing arrived - otherwise the agent already has the message
+        if (!received && await this.queueIfOffline(error, 'conversation', agentId, prompt, notePath, trigger)) {
+          await this.observed.markSent(notePath, editor.getValue());
+          new Notice('Server unreachable — message queued, the reply will arrive as an insight');
+        } else {
+          if (received) {
+            await this.observed.markSent(notePath, editor.getValue());
+          }
+          new Notice(`Failed to get response: ${describeError(error)}`);
         }
-      });
-
-      this.indicatorEl.appendChild(orb);
-    }
-
-    // Update orb state
+      }
+    } finally {
+      this.streamController = null;
+      this.streamWriter = null;
+      this.isProcessing = false;
+      this.showIndicator('observing');
+      this.updateStatusBar('listening');
+    }
+
+    if (read) {
+      const file = this.app.vault.getAbstractFileByPath(notePath);
+      this.scheduleMoodReading(file instanceof TFile ? file : null);
+    }
+  }
+
+  /**
+   * Model an agent runs on, for pricing its usage
+   */
+  getAgentModel(agentId: string): string {
+    if (this.settings.backend === 'local') return `local/${this.settings.localModel}`;
+    const profile = this.settings.agents.find(a => a.id === agentId);
+    return profile ? profile.model : this.settings.agentModel || 'unknown';
+  }
+
+  getBudgetState(): BudgetState {
+    return this.usage.budgetState({ daily: this.settings.dailyBudget, monthly: this.settings.monthlyBudget });
+  }
+
+  /**
+   * Log the tokens a response used and say so when that crosses a budget line
+   */
+  private async recordUsage(agentId: string, notePath: string, response: AgentResponse) {
+    if (!response.usage) return;
+    await this.usage.record(agentId, notePath, this.getAgentModel(agentId), response.usage);
+
+    const state = this.getBudgetState();
+    if (state === this.lastBudgetState) return;
+    this.lastBudgetState = state;
+    if (state === 'manual-only') {
+      new Notice('Therapist is close to its usage budget — observing paused, it will only answer when you ask', 10000);
+    } else if (state === 'paused') {
+      new Notice('Therapist usage budget spent — paused until it resets', 10000);
+    }
+  }
+
+  openUsageReport() {
+    new UsageReportModal(
+      this.app,
+      this.usage,
+      { daily: this.settings.dailyBudget, monthly: this.settings.monthlyBudget },
+      (agentId) => this.getAgentName(agentId)
+    ).open();
+  }
+
+  /**
+   * Inline replies have no room for details, so say when the agent changed its memory
+   */
+  private noticeMemoryEdits(response: AgentResponse, agentId: string) {
+    const edits = response.toolCalls.filter(isMemoryEdit);
+    if (edits.length > 0) {
+      new Notice(`${this.getAgentName(agentId)} updated its memory:\n${edits.map(describeToolCall).join('\n')}`, 8000);
+    }
+  }
+
+  /**
+   * Insights waiting in the active note
+   */
+  private currentInsights(): Insight[] {
+    const file = this.app.workspace.getActiveFile();
+    return file ? this.insights.pending(file.path) : [];
+  }
+
+  private showIndicator(state: 'observing' | 'thinking' | 'insight') {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view) {
+      this.hideIndicator();
+      return;
+    }
+
+    const editorEl = view.contentEl;
+
+    if (!this.indicatorEl) {
+      this.indicatorEl = document.createElement('div');
+      this.indicatorEl.className = 'therapist-indicator is-visible';
+
+      const orb = document.createElement('div');
+      orb.className = 'therapist-orb';
+      orb.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (this.currentInsights().length > 0) {
+          this.togglePopover();
+        }
+      });
+
+      this.indicatorEl.appendChild(orb);
+    }
+
+    // Update orb state
     const orb = this.indicatorEl.querySelector('.therapist-orb');
     if (orb) {
       orb.classList.remove('is-thinking', 'has-insight');
@@ -365,86 +1129,861 @@ export default class TherapistPlugin extends Plugin {
   }
 
   private showPopover() {
-    if (this.pendingInsights.length === 0 || !this.indicatorEl) return;
+    const insights = this.currentInsights();
+    if (insights.length === 0 || !this.indicatorEl) return;
 
     if (!this.popoverEl) {
-      this.popoverEl = document.createElement('div');
-      this.popoverEl.className = 'therapist-popover';
-      this.indicatorEl.appendChild(this.popoverEl);
-    }
-
-    // Build content with all insights
-    const insightCount = this.pendingInsights.length;
-    const insightsHtml = this.pendingInsights
-      .map((insight, i) => `<div class="therapist-insight-item">${insight}</div>`)
-      .join('<hr class="therapist-insight-divider">');
-
-    this.popoverEl.innerHTML = `
-      <div class="therapist-popover-header">
-        <span class="therapist-popover-title">${insightCount} Insight${insightCount > 1 ? 's' : ''}</span>
-        <button class="therapist-popover-dismiss">×</button>
-      </div>
-      <div class="therapist-popover-content">${insightsHtml}</div>
-      <div class="therapist-popover-actions">
-        <button class="therapist-popover-btn secondary dismiss-btn">Dismiss All</button>
-        <button class="therapist-popover-btn primary insert-btn">Insert at Cursor</button>
-      </div>
-    `;
-
-    // Event listeners
-    this.popoverEl.querySelector('.therapist-popover-dismiss')?.addEventListener('click', (e) => {
+      this.popoverEl = this.indicatorEl.createDiv({ cls: 'therapist-popover' });
+    }
+    this.popoverEl.empty();
+
+    // Rendered markdown can hold child components (embeds etc.) - release the last render's
+    this.popoverComponent?.unload();
+    const component = new Component();
+    component.load();
+    this.popoverComponent = component;
+
+    const sourcePath = this.app.workspace.getActiveFile()?.path ?? '';
+
+    const headerEl = this.popoverEl.createDiv({ cls: 'therapist-popover-header' });
+    headerEl.createSpan({
+      text: `${insights.length} Insight${insights.length > 1 ? 's' : ''}`,
+      cls: 'therapist-popover-title',
+    });
+    const closeEl = headerEl.createEl('button', { text: '×', cls: 'therapist-popover-dismiss' });
+    closeEl.addEventListener('click', (e) => {
       e.stopPropagation();
       this.hidePopover();
     });
 
-    this.popoverEl.querySelector('.dismiss-btn')?.addEventListener('click', (e) => {
+    // Each insight as markdown, with what the agent looked up and rating controls
+    const contentEl = this.popoverEl.createDiv({ cls: 'therapist-popover-content' });
+    insights.forEach((insight, i) => {
+      if (i > 0) {
+        contentEl.createEl('hr', { cls: 'therapist-insight-divider' });
+      }
+      const itemEl = contentEl.createDiv({ cls: 'therapist-insight-item' });
+      const textEl = itemEl.createDiv({ cls: 'therapist-insight-text markdown-rendered' });
+      MarkdownRenderer.render(this.app, insight.text, textEl, sourcePath, component);
+      this.handleInsightLinks(textEl, sourcePath);
+
+      if (hasSteps(insight)) {
+        this.renderInsightSteps(itemEl, insight);
+      }
+      this.renderInsightRating(itemEl, insight);
+    });
+
+    const actionsEl = this.popoverEl.createDiv({ cls: 'therapist-popover-actions' });
+    const dismissEl = actionsEl.createEl('button', {
+      text: 'Dismiss All',
+      cls: 'therapist-popover-btn secondary',
+    });
+    dismissEl.addEventListener('click', (e) => {
       e.stopPropagation();
       this.dismissInsights();
     });
 
-    this.popoverEl.querySelector('.insert-btn')?.addEventListener('click', (e) => {
+    const insertEl = actionsEl.createEl('button', {
+      text: 'Insert',
+      cls: 'therapist-popover-btn primary',
+    });
+    insertEl.addEventListener('click', (e) => {
       e.stopPropagation();
       const view = this.app.workspace.getActiveViewOfType(MarkdownView);
       if (view) {
-        this.insertInsightAtCursor(view.editor);
+        this.insertPendingInsights(view.editor);
       }
     });
 
-    this.popoverEl.classList.add('is-visible');
+    this.popoverEl.addClass('is-visible');
     this.popoverVisible = true;
   }
 
+  /**
+   * Open [[wikilinks]] in rendered insights - MarkdownRenderer only draws them
+   */
+  handleInsightLinks(el: HTMLElement, sourcePath: string) {
+    el.addEventListener('click', (e: MouseEvent) => {
+      const link = (e.target as HTMLElement).closest('a');
+      if (!link) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (link.hasClass('internal-link')) {
+        const target = link.getAttr('data-href') ?? link.getAttr('href') ?? '';
+        this.hidePopover();
+        this.app.workspace.openLinkText(target, sourcePath, Keymap.isModEvent(e));
+      } else {
+        const href = link.getAttr('href');
+        if (href && /^https?:\/\//.test(href)) {
+          window.open(href);
+        }
+      }
+    });
+  }
+
+  /**
+   * Expandable "what the therapist looked up / remembered" section under an insight
+   */
+  private renderInsightSteps(container: HTMLElement, response: AgentResponse) {
+    const memoryEdits = response.toolCalls.filter(isMemoryEdit);
+    const lookups = response.toolCalls.filter(call => !isMemoryEdit(call));
+
+    const details = container.createEl('details', { cls: 'therapist-insight-steps' });
+    const summary = details.createEl('summary', {
+      text: memoryEdits.length > 0
+        ? 'What the therapist looked up / remembered ✎'
+        : 'What the therapist looked up',
+    });
+    summary.addEventListener('click', (e) => e.stopPropagation());
+
+    if (response.reasoning.length > 0) {
+      const section = details.createDiv({ cls: 'therapist-insight-steps-section' });
+      section.createDiv({ text: 'Thinking', cls: 'therapist-insight-steps-label' });
+      for (const thought of response.reasoning) {
+        section.createDiv({ text: thought, cls: 'therapist-insight-step is-reasoning' });
+      }
+    }
+
+    if (lookups.length > 0) {
+      const section = details.createDiv({ cls: 'therapist-insight-steps-section' });
+      section.createDiv({ text: 'Looked up', cls: 'therapist-insight-steps-label' });
+      for (const call of lookups) {
+        const stepEl = section.createDiv({ text: describeToolCall(call), cls: 'therapist-insight-step' });
+        if (call.result) {
+          stepEl.setAttr('title', call.result);
+        }
+      }
+    }
+
+    if (memoryEdits.length > 0) {
+      const section = details.createDiv({ cls: 'therapist-insight-steps-section' });
+      section.createDiv({ text: 'Changed memory', cls: 'therapist-insight-steps-label' });
+      for (const call of memoryEdits) {
+        section.createDiv({ text: describeToolCall(call), cls: 'therapist-insight-step is-memory-edit' });
+      }
+    }
+  }
+
+  /**
+   * Helpful / not helpful buttons under an insight, with an optional comment
+   */
+  private renderInsightRating(container: HTMLElement, insight: Insight) {
+    const ratingEl = container.createDiv({ cls: 'therapist-insight-rating' });
+
+    const render = () => {
+      ratingEl.empty();
+      const buttons = ratingEl.createDiv({ cls: 'therapist-insight-rating-buttons' });
+      for (const helpful of [true, false]) {
+        const button = buttons.createEl('button', {
+          text: helpful ? '👍 Helpful' : '👎 Not helpful',
+          cls: 'therapist-insight-rating-btn',
+        });
+        if (insight.rating?.helpful === helpful) {
+          button.addClass('is-active');
+        }
+        button.addEventListener('click', async (e) => {
+          e.stopPropagation();
+          await this.rateInsight(insight, helpful, insight.rating?.comment ?? '');
+          render();
+        });
+      }
+
+      if (!insight.rating) return;
+
+      const commentEl = ratingEl.createEl('input', {
+        type: 'text',
+        placeholder: 'Why? (optional, press Enter)',
+        cls: 'therapist-insight-rating-comment',
+      });
+      commentEl.value = insight.rating.comment;
+      commentEl.addEventListener('click', (e) => e.stopPropagation());
+      commentEl.addEventListener('keydown', async (e) => {
+        if (e.key !== 'Enter' || !insight.rating) return;
+        e.preventDefault();
+        await this.rateInsight(insight, insight.rating.helpful, commentEl.value.trim());
+        commentEl.blur();
+        new Notice('Thanks — the therapist will take that into account');
+      });
+    };
+
+    render();
+  }
+
+  /**
+   * Store a rating and pass the ratings on to the agents when enough have built up
+   */
+  async rateInsight(insight: Insight, helpful: boolean, comment: string) {
+    await this.insights.rate(insight, helpful, comment);
+    this.syncFeedback().catch(error => console.warn('Failed to sync insight feedback:', error));
+  }
+
+  /**
+   * Summarise insight ratings into each agent's feedback memory block
+   * Without force this only runs when shouldSyncFeedback says enough is new.
+   * Returns how many agents were updated.
+   */
+  async syncFeedback(force: boolean = false): Promise<number> {
+    const insights = this.insights.all();
+    if (!force && !shouldSyncFeedback(insights, this.settings.lastFeedbackSync)) return 0;
+
+    const agentIds: string[] = [];
+    // Ratings of agents that were deleted or removed have nowhere to go
+    const known = [this.getAgentId(), ...this.settings.agents.map(a => a.id)];
+    for (const insight of insights) {
+      if (insight.rating && known.includes(insight.agentId) && !agentIds.includes(insight.agentId)) {
+        agentIds.push(insight.agentId);
+      }
+    }
+
+    let updated = 0;
+    for (const agentId of agentIds) {
+      const summary = summarizeFeedback(insights.filter(i => i.agentId === agentId));
+      if (!summary) continue;
+      try {
+        const blocks = await this.backend.getMemoryBlocks(agentId);
+        if (blocks.some(b => b.label === FEEDBACK_BLOCK)) {
+          await this.backend.updateMemoryBlock(agentId, FEEDBACK_BLOCK, summary);
+        } else {
+          await this.backend.createMemoryBlock(agentId, FEEDBACK_BLOCK, summary);
+        }
+        updated++;
+      } catch (error) {
+        // Agents that were deleted, or belong to the other backend, keep their ratings for later
+        if (error instanceof LettaAuthError || isRetryable(error)) {
+          throw error;
+        }
+        console.warn(`Could not update feedback for ${this.getAgentName(agentId)}:`, error);
+      }
+    }
+
+    this.settings.lastFeedbackSync = Date.now();
+    await this.saveSettings();
+    return updated;
+  }
+
   private hidePopover() {
     if (this.popoverEl) {
-      this.popoverEl.classList.remove('is-visible');
+      this.popoverEl.removeClass('is-visible');
     }
+    this.popoverComponent?.unload();
+    this.popoverComponent = null;
     this.popoverVisible = false;
   }
 
   private dismissInsights() {
-    this.pendingInsights = [];
+    const file = this.app.workspace.getActiveFile();
+    if (file) {
+      this.insights.dismiss(file.path);
+    }
+    this.hidePopover();
+    this.showIndicator('observing');
+    this.updateStatusBar('listening');
+  }
+
+  private insertPendingInsights(editor: Editor) {
+    const insights = this.currentInsights();
+    if (insights.length === 0) return;
+
+    this.placeInsights(editor, insights, true);
+    this.insights.markInserted(insights);
+
+    new Notice(`Inserted ${insights.length} insight${insights.length > 1 ? 's' : ''}`);
     this.hidePopover();
     this.showIndicator('observing');
     this.updateStatusBar('listening');
   }
 
-  private insertInsightAtCursor(editor: Editor) {
-    if (this.pendingInsights.length === 0) return;
+  /**
+   * Write insights into a note as blockquotes
+   * With anchors, each goes right after the paragraph it reacted to; the rest
+   * (and any whose paragraph is gone) go at the cursor.
+   */
+  private placeInsights(editor: Editor, insights: Insight[], useAnchors: boolean) {
+    const content = editor.getValue();
+    const cursor = editor.posToOffset(editor.getCursor());
+
+    // Every position is worked out against the same text, then filled in from the bottom up
+    const placements: Array<{ at: number; anchored: boolean; texts: string[] }> = [];
+    for (const insight of insights) {
+      const anchored = useAnchors && insight.anchor ? resolveAnchor(content, insight.anchor) : null;
+      const at = anchored ?? cursor;
+      let placement = placements.find(p => p.at === at && p.anchored === (anchored !== null));
+      if (!placement) {
+        placement = { at, anchored: anchored !== null, texts: [] };
+        placements.push(placement);
+      }
+      placement.texts.push(formatResponse(insight.text, this.getAgentName(insight.agentId)));
+    }
+
+    placements.sort((a, b) => b.at - a.at);
+    for (const placement of placements) {
+      let text = placement.texts.join('\n');
+      // The paragraph break after an anchored paragraph is already there
+      if (placement.anchored && content[placement.at] === '\n') {
+        text = text.replace(/\n+$/, '');
+      }
+      editor.replaceRange(text, editor.offsetToPos(placement.at));
+    }
+  }
+
+  /**
+   * Accept (write into the note) or dismiss an insight from its inline widget
+   */
+  private settleInlineInsight(id: string, view: EditorView, accept: boolean) {
+    const info = view.state.field(editorInfoField, false);
+    const path = info?.file?.path;
+    const insight = path ? this.insights.pending(path).find(i => i.id === id) : undefined;
+    if (!insight) return;
+
+    if (accept && info?.editor) {
+      this.placeInsights(info.editor, [insight], true);
+      this.insights.markInserted([insight]);
+    } else {
+      this.insights.markDismissed([insight]);
+    }
+    this.checkCurrentNote();
+  }
+
+  /**
+   * Show the insights sidebar, opening it in the right split if needed
+   */
+  async activateInsightsView() {
+    await this.revealSidebarView(VIEW_TYPE_INSIGHTS);
+  }
+
+  /**
+   * Show the chat panel, opening it in the right split if needed
+   */
+  async activateChatView() {
+    await this.revealSidebarView(VIEW_TYPE_CHAT);
+  }
+
+  /**
+   * Show the mood chart, opening it in the right split if needed
+   */
+  async activateMoodView() {
+    await this.revealSidebarView(VIEW_TYPE_MOOD);
+  }
+
+  private async revealSidebarView(type: string) {
+    let leaf = this.app.workspace.getLeavesOfType(type)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({ type, active: true });
+      leaf = rightLeaf;
+    }
+    await this.app.workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Agents the chat panel can talk to
+   */
+  getChatAgents(): Array<{ id: string; name: string }> {
+    const agents = [{ id: this.getAgentId(null), name: this.settings.therapistName }];
+    if (this.settings.backend === 'local') return agents;
+    for (const profile of this.settings.agents) {
+      if (!agents.some(a => a.id === profile.id)) {
+        agents.push({ id: profile.id, name: profile.name });
+      }
+    }
+    return agents.filter(a => a.id);
+  }
+
+  /**
+   * Send a message typed into the chat panel
+   * Holds off the observer while the agent answers, like an inline conversation.
+   * onText receives the reply so far when responses are streamed.
+   */
+  async sendChatMessage(
+    agentId: string,
+    text: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    if (this.getBudgetState() === 'paused') {
+      throw new Error('Therapist is paused — the usage budget is spent. Raise it in settings or wait for it to reset.');
+    }
+    if (this.isProcessing) {
+      throw new Error('Therapist is busy with a note — try again in a moment');
+    }
+
+    this.isProcessing = true;
+    try {
+      const prompt = chatPrompt(text);
+      const response = this.settings.streamResponses
+        ? await this.backend.sendMessageStream(agentId, prompt, onText, signal)
+        : await this.backend.sendMessage(agentId, prompt);
+      await this.recordUsage(agentId, '', response);
+      this.noticeMemoryEdits(response, agentId);
+      return response;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Write an exchange from the chat panel into the note being edited
+   */
+  copyExchangeToNote(userText: string, reply: string, agentId: string) {
+    const leaf = this.app.workspace.getMostRecentLeaf();
+    if (!leaf || !(leaf.view instanceof MarkdownView)) {
+      new Notice('Open a note to copy the exchange into');
+      return;
+    }
+
+    const editor = leaf.view.editor;
+    const line = editor.getCursor().line;
+    editor.setCursor({ line, ch: editor.getLine(line).length });
+    const prefix = editor.getLine(line).trim() ? '\n\n' : '';
+    editor.replaceSelection(`${prefix}${userText.trim()}${formatResponse(reply, this.getAgentName(agentId))}`);
+    new Notice('Exchange copied into the note');
+  }
+
+  /**
+   * Open today's daily note at a new Journal entry, opened by a prompt from the agent
+   * The agent draws the prompt from its memory of recent sessions. Without one -
+   * offline, out of budget or switched off in the note - the entry starts empty.
+   */
+  async startJournalSession() {
+    if (this.isProcessing) {
+      new Notice('Therapist is busy — try again in a moment');
+      return;
+    }
+
+    let file: TFile;
+    try {
+      file = await this.getTodaysNote();
+    } catch (error) {
+      console.error('Error creating daily note:', error);
+      new Notice(`Could not create today's note: ${describeError(error)}`);
+      return;
+    }
+
+    const agentId = this.getAgentId(file);
+    let opening = '';
+    if (agentId && this.getBudgetState() !== 'paused' && this.getNoteOverrides(file).mode !== 'off') {
+      this.isProcessing = true;
+      this.updateStatusBar('thinking');
+      try {
+        const prompt = await this.applyNotePersona(
+          file,
+          `[JOURNAL SESSION - The user is starting a journaling session on ${moment().format('dddd, MMMM D')}. Drawing on what you remember of their recent sessions, write a short opening prompt - one to three sentences - to help them begin writing. Reply with only the prompt.]`
+        );
+        const response = await this.backend.sendMessage(agentId, prompt);
+        await this.recordUsage(agentId, file.path, response);
+        const trimmed = response.text.trim();
+        if (trimmed !== '[listening]') {
+          opening = trimmed;
+        }
+      } catch (error) {
+        console.error('Error getting journal prompt:', error);
+        new Notice(`No opening prompt: ${describeError(error)}`);
+      } finally {
+        this.isProcessing = false;
+      }
+    }
+
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file);
+    if (!(leaf.view instanceof MarkdownView)) return;
+
+    const editor = leaf.view.editor;
+    const { offset, text } = journalInsertion(editor.getValue());
+    const entry = text + (opening ? formatResponse(opening, this.getAgentName(agentId)) : '\n\n');
+    editor.replaceRange(entry, editor.offsetToPos(offset));
+    editor.setCursor(editor.offsetToPos(offset + entry.length));
+    editor.focus();
+
+    // The agent wrote the prompt itself - there's nothing new for it to observe yet
+    await this.observed.markSent(file.path, editor.getValue());
+    this.checkCurrentNote();
+  }
+
+  /**
+   * Write a review on request and open it
+   */
+  async runReview(period: ReviewPeriod) {
+    if (this.reviewInProgress) {
+      new Notice('A review is already being written');
+      return;
+    }
+
+    new Notice(`Writing your ${period} review...`);
+    try {
+      const file = await this.writeReview(period);
+      if (!file) {
+        new Notice(`No journal entries in the last ${period === 'weekly' ? 'week' : 'month'} to review`);
+        return;
+      }
+      await this.app.workspace.getLeaf(false).openFile(file);
+    } catch (error) {
+      console.error('Error writing review:', error);
+      new Notice(`Failed to write the review: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Write the scheduled review if it's due, leaving it for the user to find
+   */
+  private async runScheduledReview() {
+    const schedule = this.settings.reviewSchedule;
+    if (schedule === 'off' || this.reviewInProgress) return;
+    if (!reviewDue(schedule, this.settings.lastReview)) return;
+
+    try {
+      const file = await this.writeReview(schedule);
+      if (file) {
+        new Notice(`Your ${schedule} review is ready: ${file.basename}`, 10000);
+      }
+    } catch (error) {
+      // Tried again at the next check
+      console.warn('Failed to write scheduled review:', error);
+    }
+  }
+
+  /**
+   * Have the analyst review the Journal sections written over a week or month
+   * Returns the review note, or null if there was nothing to review.
+   */
+  async writeReview(period: ReviewPeriod): Promise<TFile | null> {
+    const analyst = this.settings.backend === 'letta'
+      ? this.settings.agents.find(a => a.role === 'analyst')
+      : undefined;
+    const agentId = analyst ? analyst.id : this.getAgentId(null);
+    if (!agentId) {
+      throw new Error('No therapist agent configured');
+    }
+    if (this.getBudgetState() === 'paused') {
+      throw new Error('the usage budget is spent');
+    }
+
+    this.reviewInProgress = true;
+    try {
+      const now = moment();
+      const title = `${period === 'weekly' ? 'Weekly' : 'Monthly'} review ${now.format('YYYY-MM-DD')}`;
+      const path = normalizePath(`${this.settings.reviewFolder}/${title}.md`);
+
+      const entries = await this.collectJournalEntries(reviewSince(period, now.valueOf()), path);
+      if (entries.length === 0) {
+        this.settings.lastReview = now.valueOf();
+        await this.saveSettings();
+        return null;
+      }
+
+      const { prompt, included } = buildReviewPrompt(period, entries);
+      const response = await this.backend.sendMessage(agentId, prompt);
+      await this.recordUsage(agentId, path, response);
+      const content = reviewNoteContent(title, response.text, included);
+
+      if (!this.app.vault.getAbstractFileByPath(this.settings.reviewFolder)) {
+        await this.app.vault.createFolder(this.settings.reviewFolder);
+      }
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      const file = existing instanceof TFile ? existing : await this.app.vault.create(path, content);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, content);
+      }
+
+      this.settings.lastReview = now.valueOf();
+      await this.saveSettings();
+      return file;
+    } finally {
+      this.reviewInProgress = false;
+    }
+  }
+
+  /**
+   * Journal sections of the notes written since a time, linked from the review note
+   */
+  private async collectJournalEntries(since: number, reviewPath: string): Promise<JournalEntry[]> {
+    const options = this.getDailyNoteOptions();
+    const entries: JournalEntry[] = [];
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.shouldIndexFile(file)) continue;
+
+      const written = this.noteDate(file, options);
+      // A daily note counts from the start of its day
+      if (written < moment(since).startOf('day').valueOf()) continue;
+
+      const journal = getJournalContent(await this.app.vault.cachedRead(file));
+      if (!journal) continue;
+      entries.push({
+        link: this.app.metadataCache.fileToLinktext(file, reviewPath),
+        day: moment(written).format('YYYY-MM-DD'),
+        text: journal,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * When a note was written - daily notes by their name, others by their last change
+   */
+  private noteDate(file: TFile, options: DailyNoteOptions): number {
+    const name = dailyNoteName(options, file.path);
+    const dailyDate = name !== null ? moment(name, options.format, true) : null;
+    return dailyDate && dailyDate.isValid() ? dailyDate.valueOf() : file.stat.mtime;
+  }
+
+  /**
+   * Mood readings in the frontmatter of observed notes, over the last days (0 for all)
+   */
+  getMoodPoints(days: number): MoodPoint[] {
+    const options = this.getDailyNoteOptions();
+    const since = days > 0 ? moment().subtract(days, 'days').startOf('day').valueOf() : 0;
+    const points: MoodPoint[] = [];
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const reading = moodFromFrontmatter(this.app.metadataCache.getFileCache(file)?.frontmatter);
+      if (!reading || !this.shouldIndexFile(file)) continue;
+      const written = this.noteDate(file, options);
+      if (written < since) continue;
+      points.push({ ...reading, path: file.path, day: moment(written).format('YYYY-MM-DD') });
+    }
+    return points;
+  }
+
+  /**
+   * Read a note's mood once its journal has settled
+   * Every edit the agent reads pushes the reading back, so an entry is only sent
+   * once the user has left it alone for a while. The wait is kept in plugin data,
+   * so an entry closed before then is read the next time Obsidian starts.
+   */
+  private scheduleMoodReading(file: TFile | null) {
+    if (!this.settings.trackMood || !file) return;
+    this.settings.moodPending[file.path] = Date.now();
+    this.saveSettings();
+    this.startMoodTimer(file.path, MOOD_IDLE_MS);
+  }
+
+  private startMoodTimer(path: string, delay: number) {
+    const pending = this.moodTimers.get(path);
+    if (pending !== undefined) {
+      window.clearTimeout(pending);
+    }
+    this.moodTimers.set(path, window.setTimeout(() => {
+      this.moodTimers.delete(path);
+      this.trackMood(path);
+    }, Math.max(0, delay)));
+  }
+
+  /**
+   * Move a note's pending mood reading with the note, or drop it (null) when it's deleted
+   */
+  private renameMoodPending(oldPath: string, newPath: string | null) {
+    const edited = this.settings.moodPending[oldPath];
+    if (edited === undefined) return;
+    delete this.settings.moodPending[oldPath];
+    const timer = this.moodTimers.get(oldPath);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.moodTimers.delete(oldPath);
+    }
+    if (newPath) {
+      this.settings.moodPending[newPath] = edited;
+      this.startMoodTimer(newPath, edited + MOOD_IDLE_MS - Date.now());
+    }
+    this.saveSettings();
+  }
+
+  /**
+   * Store a mood reading of a note's journal in its frontmatter, at most once a day per note
+   * A note stays pending if the reading couldn't be taken yet, to be tried next start.
+   */
+  private async trackMood(path: string) {
+    if (!this.settings.trackMood || this.getBudgetState() !== 'ok') return;
+    const file = this.app.vault.getAbstractFileByPath(path);
+    const today = moment().format('YYYY-MM-DD');
+    if (!(file instanceof TFile) || this.moodReadOn.get(path) === today) {
+      await this.settleMoodPending(path);
+      return;
+    }
+
+    try {
+      const journal = getJournalContent(await this.app.vault.read(file));
+      if (journal) {
+        const response = await this.readMood(moodPrompt(journal));
+        this.moodReadOn.set(path, today);
+        await this.recordUsage(this.getAgentId(), path, response);
+
+        const reading = parseMoodReading(response.text);
+        if (reading) {
+          await this.app.fileManager.processFrontMatter(file, (frontmatter) => writeMoodFrontmatter(frontmatter, reading));
+        } else {
+          console.warn(`No usable mood reading for ${path}`);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read mood:', describeError(error));
+      return;
+    }
+    await this.settleMoodPending(path);
+  }
+
+  private async settleMoodPending(path: string) {
+    if (this.settings.moodPending[path] === undefined) return;
+    delete this.settings.moodPending[path];
+    await this.saveSettings();
+  }
+
+  /**
+   * Send a mood check outside the therapist's conversation
+   * The local backend answers it as a one-off completion; on Letta it goes to a
+   * mood reader agent, made on the therapist's model, that keeps no history.
+   */
+  private async readMood(prompt: string): Promise<AgentResponse> {
+    if (this.settings.backend === 'local') {
+      return this.localBackend.complete(prompt);
+    }
+
+    if (!this.settings.moodAgentId) {
+      this.settings.moodAgentId = await this.lettaService.createStatelessAgent(
+        'Mood reader',
+        MOOD_READER_PERSONA,
+        this.getAgentModel(this.getAgentId()),
+        this.settings.embeddingModel
+      );
+      await this.saveSettings();
+    }
+
+    try {
+      return await this.lettaService.sendMessage(this.settings.moodAgentId, prompt);
+    } catch (error) {
+      // Deleted on the server - make a new one next time
+      if (error instanceof LettaNotFoundError) {
+        this.settings.moodAgentId = '';
+        await this.saveSettings();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Clear everything that points at the main agent once it has been deleted
+   * Notes routed to it go back to the default, queued messages for it are dropped,
+   * the vault archive is looked up again on the next index, and what it cost
+   * stays counted under "Deleted agent".
+   */
+  async forgetMainAgent(): Promise<void> {
+    const agentId = this.settings.agentId;
+    this.settings.agentId = '';
+    this.settings.agentName = '';
+    this.settings.agentModel = '';
+    this.settings.therapistName = 'Therapist';
+    this.settings.archiveId = '';
+    this.settings.lastIndexed = 0;
+    for (const path of Object.keys(this.settings.noteAgents)) {
+      if (this.settings.noteAgents[path] === agentId) {
+        delete this.settings.noteAgents[path];
+      }
+    }
+    await this.outbox.removeAgent(agentId);
+    await this.usage.reassign(agentId, DELETED_AGENT_ID);
+    await this.saveSettings();
+  }
+
+  /**
+   * Delete the mood reader agent from the server - a new one is made when next needed
+   */
+  async deleteMoodAgent(): Promise<void> {
+    if (!this.settings.moodAgentId) return;
+    try {
+      await this.lettaService.deleteAgent(this.settings.moodAgentId);
+    } catch (error) {
+      if (!(error instanceof LettaNotFoundError)) {
+        new Notice(`Could not delete the mood reader agent: ${describeError(error)}`);
+        return;
+      }
+    }
+    this.settings.moodAgentId = '';
+    await this.saveSettings();
+  }
+
+  /**
+   * Folder, format and template of the core Daily Notes plugin
+   */
+  private getDailyNoteOptions(): DailyNoteOptions {
+    // The plugin keeps its settings on its internal instance
+    const internal = (this.app as unknown as {
+      internalPlugins?: { getPluginById(id: string): { instance?: { options?: unknown } } | null };
+    }).internalPlugins;
+    return dailyNoteOptions(internal?.getPluginById('daily-notes')?.instance?.options);
+  }
+
+  /**
+   * Today's daily note, created from the Daily Notes template if it doesn't exist yet
+   */
+  private async getTodaysNote(): Promise<TFile> {
+    const options = this.getDailyNoteOptions();
+    const date = moment();
+    const fileName = date.format(options.format);
+    const path = normalizePath(dailyNotePath(options, fileName));
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) return existing;
+
+    const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    let content = '';
+    if (options.template) {
+      const templatePath = normalizePath(options.template.endsWith('.md') ? options.template : `${options.template}.md`);
+      const template = this.app.vault.getAbstractFileByPath(templatePath);
+      if (template instanceof TFile) {
+        content = fillDailyTemplate(await this.app.vault.read(template), fileName.split('/').pop() ?? fileName, f => date.format(f));
+      } else {
+        console.warn(`Daily note template ${templatePath} not found`);
+      }
+    }
+    return this.app.vault.create(path, content);
+  }
+
+  private refreshInsightViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_INSIGHTS)) {
+      if (leaf.view instanceof InsightsView) {
+        leaf.view.refresh();
+      }
+    }
+  }
 
-    // Format all insights as blockquotes
-    const formattedInsights = this.pendingInsights
-      .map(insight => formatResponse(insight, this.settings.therapistName))
-      .join('\n');
+  /**
+   * Open the note an insight was written about
+   */
+  async openInsightNote(notePath: string) {
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) {
+      new Notice(`${notePath} no longer exists`);
+      return;
+    }
+    await this.app.workspace.getLeaf(false).openFile(file);
+  }
 
-    // Insert at cursor position
-    editor.replaceSelection(formattedInsights);
+  /**
+   * Insert one insight from the history into the note being edited
+   * The sidebar has focus when its button is clicked, so this uses the last active editor.
+   */
+  insertInsight(insight: Insight) {
+    const leaf = this.app.workspace.getMostRecentLeaf();
+    if (!leaf || !(leaf.view instanceof MarkdownView)) {
+      new Notice('Open a note to insert the insight into');
+      return;
+    }
 
-    new Notice(`Inserted ${this.pendingInsights.length} insight${this.pendingInsights.length > 1 ? 's' : ''}`);
-    this.dismissInsights();
+    // Its paragraph is only worth looking for in the note it came from
+    this.placeInsights(leaf.view.editor, [insight], leaf.view.file?.path === insight.notePath);
+    this.insights.markInserted([insight]);
+    this.checkCurrentNote();
+    new Notice('Insight inserted');
   }
 
   onunload() {
     this.hideIndicator();
+    // Insight anchors moved since the last save
+    this.saveSettings();
     console.log('Therapist plugin unloaded');
   }
 
@@ -460,18 +1999,118 @@ export default class TherapistPlugin extends Plugin {
    * Open the memory viewer modal
    */
   openMemoryViewer() {
-    if (!this.settings.agentId) {
+    if (!this.getAgentId()) {
+      new Notice('No therapist agent configured');
+      return;
+    }
+    new MemoryViewerModal(this.app, this.backend, this.getActiveAgentId()).open();
+  }
+
+  /**
+   * Open the persona editor on an agent's live persona block
+   */
+  async editPersona(agentId: string) {
+    if (!agentId) {
       new Notice('No therapist agent configured');
       return;
     }
-    new MemoryViewerModal(this.app, this.lettaService, this.settings.agentId).open();
+
+    let current: string;
+    try {
+      const blocks = await this.backend.getMemoryBlocks(agentId);
+      current = blocks.find(b => b.label === 'persona')?.value ?? '';
+    } catch (error) {
+      console.error('Failed to load persona:', error);
+      new Notice(`Failed to load persona: ${describeError(error)}`);
+      return;
+    }
+
+    const name = this.getAgentName(agentId);
+    new PersonaEditorModal(this.app, {
+      title: `${name}'s persona`,
+      initial: current,
+      folder: this.settings.personaFolder,
+      submitText: 'Apply to agent',
+      onSubmit: async (persona) => {
+        await this.backend.updateMemoryBlock(agentId, 'persona', persona);
+        new Notice(`${name}'s persona updated`);
+      },
+    }).open();
+  }
+
+  /**
+   * Export the Letta agent to a backup file in the vault
+   * Returns false if there was nothing to export or it failed.
+   */
+  async exportAgent(): Promise<boolean> {
+    if (this.settings.backend !== 'letta' || !this.settings.agentId) {
+      new Notice('No Letta agent to export');
+      return false;
+    }
+    try {
+      const file = await exportAgent(
+        this.app,
+        this.lettaService,
+        this.settings.agentId,
+        this.settings.backupFolder,
+        this.settings.therapistName,
+        this.settings.agentModel
+      );
+      new Notice(`Therapist exported to ${file.path}`);
+      return true;
+    } catch (error) {
+      console.error('Export failed:', error);
+      new Notice(`Export failed: ${describeError(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Compare the vault archive's embedding model with the agent's
+   * Returns both handles if they differ, null if they match or there is nothing to compare.
+   */
+  async checkEmbeddingMismatch(): Promise<{ archive: string; agent: string } | null> {
+    if (this.settings.backend !== 'letta' || !this.settings.agentId || !this.settings.archiveId) {
+      return null;
+    }
+    const [archive, agent] = await Promise.all([
+      this.lettaService.getArchive(this.settings.archiveId),
+      this.lettaService.getAgent(this.settings.agentId),
+    ]);
+    if (!archive || !agent || archive.embedding === agent.embedding) {
+      return null;
+    }
+    return { archive: archive.embedding, agent: agent.embedding };
+  }
+
+  /**
+   * Replace the vault archive with one using the agent's embedding model and index into it
+   */
+  async reembedVault(): Promise<void> {
+    const agent = await this.lettaService.getAgent(this.settings.agentId);
+    if (!agent) {
+      throw new LettaNotFoundError('Agent no longer exists on the server', 404, 'agent');
+    }
+
+    if (this.settings.archiveId) {
+      try {
+        await this.lettaService.deleteArchive(this.settings.archiveId);
+      } catch (error) {
+        if (!(error instanceof LettaNotFoundError)) throw error;
+      }
+      this.settings.archiveId = '';
+      await this.saveSettings();
+    }
+
+    await this.indexVault(agent.embedding);
   }
 
   /**
    * Index the vault content into Letta archives for RAG
+   * A new archive is embedded with the given model, the configured one by default.
    */
-  async indexVault(): Promise<void> {
-    if (!this.settings.agentId) {
+  async indexVault(embedding: string = this.settings.embeddingModel): Promise<void> {
+    if (!this.getAgentId()) {
       throw new Error('No agent configured');
     }
 
@@ -479,24 +2118,33 @@ export default class TherapistPlugin extends Plugin {
     let archiveId = this.settings.archiveId;
     if (!archiveId) {
       // Check if archive already exists
-      const archives = await this.lettaService.listArchives();
+      const archives = await this.backend.listArchives();
       const existing = archives.find(a => a.name === 'obsidian-vault');
       if (existing) {
         archiveId = existing.id;
       } else {
-        archiveId = await this.lettaService.createArchive('obsidian-vault');
-        // Attach to agent
-        await this.lettaService.attachArchive(this.settings.agentId, archiveId);
+        archiveId = await this.backend.createArchive('obsidian-vault', embedding);
       }
       this.settings.archiveId = archiveId;
       await this.saveSettings();
     }
 
+    // Every agent reads the same notes - the main one must, the others should
+    await this.backend.attachArchive(this.getAgentId(), archiveId);
+    for (const agent of this.settings.agents) {
+      try {
+        await this.backend.attachArchive(agent.id, archiveId);
+      } catch (error) {
+        console.warn(`Could not attach vault archive to ${agent.name}:`, error);
+      }
+    }
+
     // Clear existing passages for fresh index
-    await this.lettaService.clearArchive(archiveId);
+    await this.backend.clearArchive(archiveId);
 
     // Get all markdown files
     const files = this.app.vault.getMarkdownFiles();
+    const passages: Passage[] = [];
     let indexed = 0;
 
     for (const file of files) {
@@ -515,10 +2163,7 @@ export default class TherapistPlugin extends Plugin {
         // Split content into chunks (simple approach - by paragraphs)
         const chunks = this.chunkContent(content, file.path);
         for (const chunk of chunks) {
-          await this.lettaService.addPassage(archiveId, chunk.text, {
-            source: file.path,
-            title: file.basename,
-          });
+          passages.push({ text: chunk.text, metadata: { source: file.path, title: file.basename } });
         }
         indexed++;
       } catch (error) {
@@ -526,6 +2171,12 @@ export default class TherapistPlugin extends Plugin {
       }
     }
 
+    // Sent together so a file-backed archive is written once per run, not once per passage
+    const failed = await this.backend.addPassages(archiveId, passages);
+    if (failed > 0) {
+      new Notice(`${failed} of ${passages.length} passages could not be added to the vault archive — reindex to try again`, 10000);
+    }
+
     this.settings.lastIndexed = Date.now();
     await this.saveSettings();
 
@@ -534,8 +2185,19 @@ export default class TherapistPlugin extends Plugin {
 
   /**
    * Check if a file should be observed (same logic as indexing)
+   * A therapist: key in the note's frontmatter overrides the folder lists.
    */
   private shouldObserveFile(file: TFile): boolean {
+    if (file.path.startsWith(this.localBackend.getFolder() + '/')) {
+      return false;
+    }
+    const { mode } = this.getNoteOverrides(file);
+    if (mode === 'off' || mode === 'converse') {
+      return false;
+    }
+    if (mode === 'observe') {
+      return true;
+    }
     // If no folders configured, observe everything
     if (this.settings.includedFolders.length === 0 && this.settings.excludedFolders.length === 0) {
       return true;
@@ -549,6 +2211,26 @@ export default class TherapistPlugin extends Plugin {
   private shouldIndexFile(file: TFile): boolean {
     const filePath = file.path;
 
+    // Never feed the local backend's own memory files back to it
+    const memoryFolder = this.localBackend.getFolder();
+    if (filePath.startsWith(memoryFolder + '/')) {
+      return false;
+    }
+
+    // Persona files are instructions for the agent, not writing about the user
+    if (filePath.startsWith(this.settings.personaFolder + '/')) {
+      return false;
+    }
+
+    // Notes that opt in or out in their frontmatter
+    const { mode } = this.getNoteOverrides(file);
+    if (mode === 'off') {
+      return false;
+    }
+    if (mode === 'observe' || mode === 'converse') {
+      return true;
+    }
+
     // Check excluded folders first
     for (const excluded of this.settings.excludedFolders) {
       if (excluded === '' || excluded === '/') {
@@ -0,0 +1,165 @@
+/**
+ * Mood readings of journal entries
+ * Once an entry has settled it is read for its mood - valence, energy and the
+ * main emotions - outside the therapist's conversation, and the reading goes into
+ * the note's frontmatter where Dataview, Bases and the mood chart can all read it.
+ */
+
+export const MOOD_CHECK_HEADER = '[MOOD CHECK - Read the journal entry below and rate the mood it expresses. Reply with only JSON in the form {"valence": -0.4, "energy": 0.3, "emotions": ["anxious", "tired"]} - valence from -1 (very negative) to 1 (very positive), energy from 0 (depleted) to 1 (energised), and up to three emotions as single lowercase words.]';
+
+/** Persona of the Letta agent that reads moods - it forgets each entry once it has replied */
+export const MOOD_READER_PERSONA = 'You rate the mood of journal entries. Each message is a separate entry from the same person. Reply with only the JSON you are asked for - no commentary, and never write to memory.';
+
+export const MOOD_KEYS = {
+  valence: 'mood-valence',
+  energy: 'mood-energy',
+  emotions: 'mood-emotions',
+};
+
+const MAX_EMOTIONS = 3;
+const MAX_ENTRY_LENGTH = 6000;
+
+export interface MoodReading {
+  /** -1 (very negative) to 1 (very positive) */
+  valence: number;
+  /** 0 (depleted) to 1 (energised) */
+  energy: number;
+  emotions: string[];
+}
+
+export interface MoodPoint extends MoodReading {
+  path: string;
+  /** Local date of the entry, YYYY-MM-DD */
+  day: string;
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+  point: MoodPoint;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : null;
+}
+
+function toEmotions(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const emotions: string[] = [];
+  for (const item of list) {
+    if (typeof item !== 'string') continue;
+    const emotion = item.trim().toLowerCase();
+    if (emotion && !emotions.includes(emotion)) {
+      emotions.push(emotion);
+    }
+  }
+  return emotions;
+}
+
+/**
+ * Prompt asking for a reading of a journal entry
+ */
+export function moodPrompt(journal: string): string {
+  const entry = journal.length > MAX_ENTRY_LENGTH ? journal.slice(-MAX_ENTRY_LENGTH) : journal;
+  return `${MOOD_CHECK_HEADER}\n\n${entry.trim()}`;
+}
+
+/**
+ * The reading in the reply, or null if it didn't give a usable one
+ * Models wrap JSON in prose or code fences, so the first object in the text is used.
+ */
+export function parseMoodReading(text: string): MoodReading | null {
+  const match = text.match(/\{[\s\S]*?\}/);
+  if (!match) return null;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const valence = toNumber(raw.valence);
+  const energy = toNumber(raw.energy);
+  if (valence === null || energy === null) return null;
+
+  return {
+    valence: round(clamp(valence, -1, 1)),
+    energy: round(clamp(energy, 0, 1)),
+    emotions: toEmotions(raw.emotions).slice(0, MAX_EMOTIONS),
+  };
+}
+
+/**
+ * A reading stored in a note's frontmatter, or null if it has none
+ */
+export function moodFromFrontmatter(frontmatter: Record<string, unknown> | undefined): MoodReading | null {
+  if (!frontmatter) return null;
+  const valence = toNumber(frontmatter[MOOD_KEYS.valence]);
+  const energy = toNumber(frontmatter[MOOD_KEYS.energy]);
+  if (valence === null || energy === null) return null;
+  return {
+    valence: clamp(valence, -1, 1),
+    energy: clamp(energy, 0, 1),
+    emotions: toEmotions(frontmatter[MOOD_KEYS.emotions]),
+  };
+}
+
+/**
+ * Write a reading into frontmatter (for processFrontMatter)
+ */
+export function writeMoodFrontmatter(frontmatter: Record<string, unknown>, reading: MoodReading) {
+  frontmatter[MOOD_KEYS.valence] = reading.valence;
+  frontmatter[MOOD_KEYS.energy] = reading.energy;
+  frontmatter[MOOD_KEYS.emotions] = reading.emotions;
+}
+
+/**
+ * Emotions by how many entries mention them, most frequent first
+ */
+export function countEmotions(points: MoodPoint[]): Array<{ emotion: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const point of points) {
+    for (const emotion of point.emotions) {
+      counts.set(emotion, (counts.get(emotion) ?? 0) + 1);
+    }
+  }
+  const sorted: Array<{ emotion: string; count: number }> = [];
+  counts.forEach((count, emotion) => sorted.push({ emotion, count }));
+  return sorted.sort((a, b) => b.count - a.count || a.emotion.localeCompare(b.emotion));
+}
+
+/**
+ * Positions of readings on a chart, spread across the days from first to last
+ * Valence and energy share the height: -1..1 and 0..1 are both drawn bottom to top.
+ */
+export function chartPoints(
+  points: MoodPoint[],
+  width: number,
+  height: number,
+  measure: 'valence' | 'energy'
+): ChartPoint[] {
+  const sorted = points.slice().sort((a, b) => a.day.localeCompare(b.day));
+  if (sorted.length === 0) return [];
+
+  const first = Date.parse(sorted[0].day);
+  const span = Date.parse(sorted[sorted.length - 1].day) - first;
+  return sorted.map(point => {
+    const fraction = measure === 'valence' ? (point.valence + 1) / 2 : point.energy;
+    return {
+      x: round(span > 0 ? ((Date.parse(point.day) - first) / span) * width : width / 2),
+      y: round(height - fraction * height),
+      point,
+    };
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Per-note therapist settings from frontmatter
+ *
+ *   therapist: off | observe | converse
+ *   therapist-agent: <agent name or id>
+ *   therapist-persona: <template id or persona file name>
+ */
+
+/**
+ * off - no observing, talking or indexing in this note
+ * observe - observe and index even outside the configured folders
+ * converse - only answer when asked, never observe
+ */
+export type NoteMode = 'off' | 'observe' | 'converse';
+
+export interface NoteOverrides {
+  mode?: NoteMode;
+  agent?: string;
+  persona?: string;
+}
+
+export const MODE_KEY = 'therapist';
+export const AGENT_KEY = 'therapist-agent';
+export const PERSONA_KEY = 'therapist-persona';
+
+function parseMode(value: unknown): NoteMode | undefined {
+  // YAML turns bare off/on/yes/no into booleans
+  if (value === false) return 'off';
+  if (value === true) return 'observe';
+  if (typeof value !== 'string') return undefined;
+  switch (value.trim().toLowerCase()) {
+    case 'off':
+    case 'no':
+    case 'false':
+      return 'off';
+    case 'observe':
+    case 'on':
+      return 'observe';
+    case 'converse':
+    case 'conversation':
+    case 'talk':
+      return 'converse';
+    default:
+      return undefined;
+  }
+}
+
+function parseName(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Allow [[Persona]] links as well as plain names
+  const name = value.trim().replace(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/, '$1').trim();
+  return name || undefined;
+}
+
+/**
+ * Read the therapist keys from a note's frontmatter, ignoring values that don't make sense
+ */
+export function parseNoteOverrides(frontmatter: Record<string, unknown> | null | undefined): NoteOverrides {
+  if (!frontmatter) return {};
+  const overrides: NoteOverrides = {};
+
+  const mode = parseMode(frontmatter[MODE_KEY]);
+  if (mode) overrides.mode = mode;
+
+  const agent = parseName(frontmatter[AGENT_KEY]);
+  if (agent) overrides.agent = agent;
+
+  const persona = parseName(frontmatter[PERSONA_KEY]);
+  if (persona) overrides.persona = persona;
+
+  return overrides;
+}
+
+export function hasOverrides(overrides: NoteOverrides): boolean {
+  return overrides.mode !== undefined || overrides.agent !== undefined || overrides.persona !== undefined;
+}
+
+/**
+ * Prefix a prompt with the persona a note asked for
+ * The agent's own persona stays as it is; this only applies to the one message.
+ */
+export function withNotePersona(prompt: string, persona: string): string {
+  return `[NOTE PERSONA - In this note, respond in this style:\n${persona.trim()}\n]\n\n${prompt}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * What the observer has already shown the agent, per note
+ * Each note keeps the hashes of the paragraphs that were sent, in order, so the
+ * next observation only carries paragraphs that are new or were rewritten.
+ */
+
+import { getNewContent, isTherapistResponse } from './contentParser';
+
+export type ParagraphChangeKind = 'new' | 'edited' | 'inserted';
+
+/**
+ * new - written after everything the agent has seen
+ * edited - replaces a paragraph the agent has seen
+ * inserted - added between paragraphs the agent has seen
+ */
+export interface ParagraphChange {
+  kind: ParagraphChangeKind;
+  text: string;
+}
+
+/**
+ * Paragraphs of a note the way the agent sees them
+ * Frontmatter and therapist responses are left out.
+ */
+export function splitParagraphs(content: string): string[] {
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+  return body
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(p => p.trim())
+    .filter(p => p !== '' && !isTherapistResponse(p));
+}
+
+/**
+ * Short stable hash of a paragraph, ignoring trailing spaces on its lines
+ */
+export function hashParagraph(paragraph: string): string {
+  const normalized = paragraph.replace(/[ \t]+$/gm, '');
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Compare a note with the hashes already sent and describe what changed
+ * A paragraph counts as edited when a sent paragraph between the same neighbours is gone.
+ */
+export function diffParagraphs(paragraphs: string[], sent: string[]): ParagraphChange[] {
+  const hashes = paragraphs.map(hashParagraph);
+  const sentIndex = new Map<string, number>();
+  sent.forEach((hash, i) => sentIndex.set(hash, i));
+  const current = new Set(hashes);
+
+  const changes: ParagraphChange[] = [];
+  for (let i = 0; i < paragraphs.length; i++) {
+    if (sentIndex.has(hashes[i])) continue;
+
+    // Nearest paragraphs on either side that the agent has seen
+    let before = -1;
+    for (let j = i - 1; j >= 0; j--) {
+      if (sentIndex.has(hashes[j])) { before = sentIndex.get(hashes[j])!; break; }
+    }
+    let after = sent.length;
+    for (let j = i + 1; j < paragraphs.length; j++) {
+      if (sentIndex.has(hashes[j])) { after = sentIndex.get(hashes[j])!; break; }
+    }
+
+    let replaced = false;
+    for (let k = before + 1; k < after; k++) {
+      if (!current.has(sent[k])) { replaced = true; break; }
+    }
+
+    const kind: ParagraphChangeKind = replaced ? 'edited' : after < sent.length ? 'inserted' : 'new';
+    changes.push({ kind, text: paragraphs[i] });
+  }
+  return changes;
+}
+
+/**
+ * Observer message body - plain text when everything is new, labelled otherwise
+ */
+export function formatChanges(changes: ParagraphChange[]): string {
+  if (changes.every(c => c.kind === 'new')) {
+    return changes.map(c => c.text).join('\n\n');
+  }
+  return changes.map(c => {
+    switch (c.kind) {
+      case 'edited':
+        return `[Edited earlier paragraph]\n${c.text}`;
+      case 'inserted':
+        return `[Added earlier in the note]\n${c.text}`;
+      default:
+        return c.text;
+    }
+  }).join('\n\n');
+}
+
+/**
+ * Sent paragraph hashes per note, over a caller-owned record (the plugin settings)
+ */
+export class ObservedNotes {
+  private notes: Record<string, string[]>;
+  private save: () => Promise<void>;
+
+  constructor(notes: Record<string, string[]>, save: () => Promise<void>) {
+    this.notes = notes;
+    this.save = save;
+  }
+
+  /**
+   * What the agent hasn't seen yet in this note
+   * A note observed for the first time starts from its last therapist response,
+   * so older text that was already discussed isn't sent again.
+   */
+  changes(path: string, content: string): ParagraphChange[] {
+    const paragraphs = splitParagraphs(content);
+    let sent = this.notes[path];
+    if (!sent) {
+      const unseen = new Set(splitParagraphs(getNewContent(content)));
+      sent = paragraphs.filter(p => !unseen.has(p)).map(hashParagraph);
+    }
+    return diffParagraphs(paragraphs, sent);
+  }
+
+  /**
+   * Record the note as the agent has now seen it
+   */
+  async markSent(path: string, content: string): Promise<void> {
+    this.notes[path] = splitParagraphs(content).map(hashParagraph);
+    await this.save();
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const sent = this.notes[oldPath];
+    if (!sent) return;
+    delete this.notes[oldPath];
+    this.notes[newPath] = sent;
+    await this.save();
+  }
+
+  async remove(path: string): Promise<void> {
+    if (!this.notes[path]) return;
+    delete this.notes[path];
+    await this.save();
+  }
+}
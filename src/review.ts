@@ -0,0 +1,97 @@
+/**
+ * Weekly and monthly reviews of the journal
+ * The Journal sections of recent notes go to the analyst agent in one message,
+ * and what it finds is written to a review note that links back to every entry.
+ */
+
+export type ReviewPeriod = 'weekly' | 'monthly';
+export type ReviewSchedule = 'off' | ReviewPeriod;
+
+export const REVIEW_DAYS: Record<ReviewPeriod, number> = {
+  weekly: 7,
+  monthly: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRY_LENGTH = 4000; // Characters of one note's journal sent
+const MAX_REVIEW_LENGTH = 60000; // Characters of journal sent in total
+
+export interface JournalEntry {
+  /** Link text that resolves to the note from the review note */
+  link: string;
+  /** Local date the entry was written, YYYY-MM-DD */
+  day: string;
+  text: string;
+}
+
+/**
+ * Start of the window a review covers
+ */
+export function reviewSince(period: ReviewPeriod, now: number = Date.now()): number {
+  return now - REVIEW_DAYS[period] * DAY_MS;
+}
+
+/**
+ * Whether the scheduled review is due, given when it last ran
+ */
+export function reviewDue(schedule: ReviewSchedule, lastReview: number, now: number = Date.now()): boolean {
+  if (schedule === 'off') return false;
+  return now - lastReview >= REVIEW_DAYS[schedule] * DAY_MS;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text;
+}
+
+/**
+ * The message asking for a review, entries oldest first
+ * The total limit is filled from the newest entry back, so it's the oldest ones
+ * left out rather than cut mid-way; returns which made it in so the note only
+ * links what the agent actually read.
+ */
+export function buildReviewPrompt(period: ReviewPeriod, entries: JournalEntry[]): { prompt: string; included: JournalEntry[] } {
+  const newestFirst = entries.slice().sort((a, b) => b.day.localeCompare(a.day));
+  const chosen: Array<{ entry: JournalEntry; section: string }> = [];
+  let length = 0;
+
+  for (const entry of newestFirst) {
+    const section = `### [[${entry.link}]] (${entry.day})\n${truncate(entry.text.trim(), MAX_ENTRY_LENGTH)}`;
+    if (chosen.length > 0 && length + section.length > MAX_REVIEW_LENGTH) break;
+    chosen.push({ entry, section });
+    length += section.length;
+  }
+
+  chosen.reverse();
+  const sections = chosen.map(c => c.section);
+  const included = chosen.map(c => c.entry);
+
+  const span = period === 'weekly' ? 'week' : 'month';
+  const header = `[REVIEW MODE - Here are the user's journal entries from the past ${span}. ` +
+    `Write a ${period} review for them in Markdown with the sections "## Patterns" and "## Suggestions". ` +
+    `Name the recurring themes, moods and situations you see across entries, and give specific, practical suggestions. ` +
+    `When you refer to an entry, link it exactly as it is linked below, e.g. [[${included.length > 0 ? included[0].link : 'Note'}]]. ` +
+    `Reply with only the review.]`;
+
+  return { prompt: `${header}\n\n${sections.join('\n\n')}`, included };
+}
+
+/**
+ * The review note, keeping the agent out of it and listing its sources
+ */
+export function reviewNoteContent(title: string, review: string, sources: JournalEntry[]): string {
+  const lines = [
+    '---',
+    'therapist: off',
+    '---',
+    '',
+    `# ${title}`,
+    '',
+    review.trim(),
+    '',
+    '## Entries',
+    '',
+    ...sources.map(entry => `- [[${entry.link}]] (${entry.day})`),
+    '',
+  ];
+  return lines.join('\n');
+}
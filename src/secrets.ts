@@ -0,0 +1,296 @@
+/**
+ * API keys encrypted at rest
+ * data.json is synced with the vault (sometimes into git), so keys are stored as
+ * AES-GCM ciphertext and only decrypted in memory. The key comes either from this
+ * device (kept in local storage, never synced) or from a passphrase.
+ */
+
+export type SecretMode = 'device' | 'passphrase';
+
+export type SecretField = 'apiKey' | 'openaiApiKey' | 'anthropicApiKey' | 'localApiKey';
+
+export const SECRET_FIELDS: SecretField[] = ['apiKey', 'openaiApiKey', 'anthropicApiKey', 'localApiKey'];
+
+/** The settings fields this module reads and writes */
+export interface SecretSettings extends Record<SecretField, string> {
+  secretMode: SecretMode;
+  /** PBKDF2 salt for passphrase mode */
+  secretSalt: string;
+  /** A known value encrypted with the current key, to tell a wrong passphrase from a right one */
+  secretCheck: string;
+}
+
+/** Where the device key lives - somewhere that is not synced */
+export interface DeviceKeyStorage {
+  load(): string | null;
+  save(key: string): void;
+}
+
+export type SecretStatus = 'ready' | 'locked' | 'unreadable';
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+const PREFIX = 'enc:v1:';
+const CHECK_VALUE = 'obsidian-therapist';
+const PBKDF2_ITERATIONS = 210000;
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function generateDeviceKey(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export function importDeviceKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+export async function deriveKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a value as "enc:v1:<iv>:<ciphertext>" - empty stays empty
+ */
+export async function encryptSecret(value: string, key: CryptoKey): Promise<string> {
+  if (!value) return '';
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+  return `${PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(data))}`;
+}
+
+/**
+ * Decrypt a stored value; plaintext from before encryption is returned as it is
+ * Throws SecretsError if the key is wrong.
+ */
+export async function decryptSecret(value: string, key: CryptoKey): Promise<string> {
+  if (!isEncrypted(value)) return value;
+  const [iv, data] = value.slice(PREFIX.length).split(':');
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data ?? ''));
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new SecretsError('Could not decrypt API key — wrong passphrase or a different device');
+  }
+}
+
+/**
+ * Decrypted API keys, held in memory only
+ * Reads and writes the caller-owned settings object and saves through the callback.
+ */
+export class SecretStore {
+  private settings: SecretSettings;
+  private storage: DeviceKeyStorage;
+  private save: () => Promise<void>;
+  private key: CryptoKey | null = null;
+  private values: Partial<Record<SecretField, string>> = {};
+  // Fields encrypted by another device's key, which must not be overwritten from here
+  private unreadable = new Set<SecretField>();
+  // Encrypting takes a while - writes are chained so they land in the order made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(settings: SecretSettings, storage: DeviceKeyStorage, save: () => Promise<void>) {
+    this.settings = settings;
+    this.storage = storage;
+    this.save = save;
+  }
+
+  get isLocked(): boolean {
+    return this.key === null;
+  }
+
+  get mode(): SecretMode {
+    return this.settings.secretMode;
+  }
+
+  /**
+   * Decrypted value, or '' while locked
+   */
+  get(field: SecretField): string {
+    return this.values[field] ?? '';
+  }
+
+  /**
+   * Open the store and encrypt anything still stored in plaintext
+   * Passphrase mode stays locked until unlock() is called.
+   */
+  async load(): Promise<SecretStatus> {
+    if (this.settings.secretMode === 'passphrase') {
+      return 'locked';
+    }
+
+    let deviceKey = this.storage.load();
+    if (!deviceKey) {
+      deviceKey = generateDeviceKey();
+      this.storage.save(deviceKey);
+    }
+    return this.open(await importDeviceKey(deviceKey));
+  }
+
+  /**
+   * Unlock passphrase mode - false if the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const key = await deriveKey(passphrase, this.settings.secretSalt);
+    try {
+      await decryptSecret(this.settings.secretCheck, key);
+    } catch {
+      return false;
+    }
+    await this.open(key);
+    return true;
+  }
+
+  /**
+   * Store a new value, encrypted
+   */
+  async set(field: SecretField, value: string): Promise<void> {
+    this.assertUnlocked();
+    this.values[field] = value;
+    this.unreadable.delete(field);
+    await this.serialize(async () => {
+      this.settings[field] = await encryptSecret(value, this.key!);
+      await this.save();
+    });
+  }
+
+  /**
+   * Re-encrypt everything with a passphrase instead of the device key
+   */
+  async usePassphrase(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new SecretsError('Passphrase cannot be empty');
+    }
+    this.assertUnlocked();
+    this.assertReadable();
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt);
+    await this.serialize(() => {
+      this.settings.secretSalt = salt;
+      return this.reencrypt('passphrase', key);
+    });
+  }
+
+  /**
+   * Re-encrypt everything with this device's key
+   * Other devices will need the keys entered again.
+   */
+  async useDeviceKey(): Promise<void> {
+    this.assertUnlocked();
+    this.assertReadable();
+    let deviceKey = this.storage.load();
+    if (!deviceKey) {
+      deviceKey = generateDeviceKey();
+      this.storage.save(deviceKey);
+    }
+    const key = await importDeviceKey(deviceKey);
+    await this.serialize(() => {
+      this.settings.secretSalt = '';
+      return this.reencrypt('device', key);
+    });
+  }
+
+  private serialize(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write);
+    this.writes = next.catch(() => {});
+    return next;
+  }
+
+  private assertUnlocked() {
+    if (!this.key) {
+      throw new SecretsError('Unlock your API keys first');
+    }
+  }
+
+  /**
+   * Re-encrypting a key this device can't read would replace it with an empty one
+   */
+  private assertReadable() {
+    if (this.unreadable.size > 0) {
+      throw new SecretsError('Some API keys were saved on another device and can\'t be read here — enter them again first');
+    }
+  }
+
+  private async reencrypt(mode: SecretMode, key: CryptoKey): Promise<void> {
+    this.key = key;
+    this.settings.secretMode = mode;
+    this.settings.secretCheck = await encryptSecret(CHECK_VALUE, key);
+    for (const field of SECRET_FIELDS) {
+      this.settings[field] = await encryptSecret(this.get(field), key);
+    }
+    await this.save();
+  }
+
+  private async open(key: CryptoKey): Promise<SecretStatus> {
+    this.key = key;
+    let status: SecretStatus = 'ready';
+    let changed = false;
+    this.unreadable.clear();
+
+    for (const field of SECRET_FIELDS) {
+      const stored = this.settings[field];
+      try {
+        this.values[field] = await decryptSecret(stored, key);
+      } catch {
+        // Encrypted somewhere else - keep it so that device can still read it
+        this.values[field] = '';
+        this.unreadable.add(field);
+        status = 'unreadable';
+        continue;
+      }
+      if (stored && !isEncrypted(stored)) {
+        this.settings[field] = await encryptSecret(stored, key);
+        changed = true;
+      }
+    }
+
+    if (!this.settings.secretCheck) {
+      this.settings.secretCheck = await encryptSecret(CHECK_VALUE, key);
+      changed = true;
+    }
+    if (changed) {
+      await this.save();
+    }
+    return status;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * What a Letta server can do, worked out from the version it reports
+ * Optional features have come and gone between releases, so LettaService asks
+ * this table before using one instead of assuming the newest server. Endpoint
+ * paths are not versioned here: every release the table covers routes them the
+ * same way, so endpointPath gives them that one shape.
+ */
+
+export type ServerFeature = 'archives' | 'sleeptime' | 'providers' | 'embeddingModels';
+
+export interface ServerCapabilities {
+  /** Version reported by /v1/health, null if the server didn't say */
+  version: string | null;
+  features: Record<ServerFeature, boolean>;
+}
+
+interface CapabilityChange {
+  since: string;
+  features?: Partial<Record<ServerFeature, boolean>>;
+}
+
+// Oldest first - each row changes what the rows before it said
+const CAPABILITY_TABLE: CapabilityChange[] = [
+  {
+    since: '0.5.0',
+    features: { archives: false, sleeptime: false, providers: false, embeddingModels: true },
+  },
+  { since: '0.6.0', features: { providers: true } },
+  { since: '0.7.0', features: { sleeptime: true } },
+  { since: '0.11.0', features: { archives: true } },
+];
+
+/** Human-readable names for notices */
+export const FEATURE_NAMES: Record<ServerFeature, string> = {
+  archives: 'vault archives',
+  sleeptime: 'sleep-time memory agents',
+  providers: 'provider API keys',
+  embeddingModels: 'embedding model listing',
+};
+
+// Collection roots, written without their trailing slash - Letta routes them with
+// one, and its redirect from the bare path drops a POST body on the way
+const COLLECTION_PATHS = [
+  /^\/v1\/agents$/,
+  /^\/v1\/archives$/,
+  /^\/v1\/archives\/[^/]+\/passages$/,
+  /^\/v1\/providers$/,
+  /^\/v1\/blocks$/,
+  /^\/v1\/health$/,
+];
+
+/**
+ * Parse "0.11.2" (or "v0.11.2-dev") into numbers, null if it isn't a version
+ */
+export function parseVersion(version: string): number[] | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+}
+
+/**
+ * Negative if a is older than b, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a) ?? [0, 0, 0];
+  const vb = parseVersion(b) ?? [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    if (va[i] !== vb[i]) return va[i] - vb[i];
+  }
+  return 0;
+}
+
+/**
+ * Capabilities of a server reporting this version
+ * An unknown version is treated as the newest server the table knows about.
+ */
+export function capabilitiesFor(version: string | null): ServerCapabilities {
+  const known = version !== null && parseVersion(version) !== null;
+  const capabilities: ServerCapabilities = {
+    version,
+    features: { archives: true, sleeptime: true, providers: true, embeddingModels: true },
+  };
+
+  for (const change of CAPABILITY_TABLE) {
+    // Older than the first row still gets the first row
+    if (known && change !== CAPABILITY_TABLE[0] && compareVersions(version!, change.since) < 0) break;
+    for (const feature of Object.keys(change.features ?? {}) as ServerFeature[]) {
+      capabilities.features[feature] = change.features![feature]!;
+    }
+  }
+
+  return capabilities;
+}
+
+/**
+ * Shape a request path for the server - collection paths get their trailing slash
+ * Query strings are kept as they are.
+ */
+export function endpointPath(path: string): string {
+  const queryStart = path.indexOf('?');
+  const base = queryStart >= 0 ? path.slice(0, queryStart) : path;
+  const query = queryStart >= 0 ? path.slice(queryStart) : '';
+  const bare = base.length > 1 ? base.replace(/\/+$/, '') : base;
+
+  if (!COLLECTION_PATHS.some(pattern => pattern.test(bare))) {
+    return path;
+  }
+  return bare + '/' + query;
+}
@@ -1,42 +1,127 @@
-import { App, Notice, PluginSettingTab, Setting, requestUrl, TFolder, FuzzySuggestModal } from 'obsidian';
+import { App, DropdownComponent, Modal, Notice, PluginSettingTab, Setting, TFile, TFolder, FuzzySuggestModal } from 'obsidian';
 import type TherapistPlugin from './main';
+import type { QueuedMessage } from './OfflineQueue';
+import type { Insight } from './insights';
+import type { AgentProfile } from './agentRouting';
+import type { AgentRole } from './LettaService';
+import { describeError, LettaNotFoundError } from './errors';
+import { importAgent } from './AgentBackup';
+import { PersonaEditorModal } from './PersonaEditorModal';
+import { ROLE_PERSONAS } from './LettaService';
+import { FEATURE_NAMES, ServerFeature } from './serverCapabilities';
+import { PassphraseModal } from './PassphraseModal';
+import { MANUAL_ONLY_AT, UsageEntry, formatCost } from './usage';
+import type { SecretField, SecretMode } from './secrets';
+import type { ReviewSchedule } from './review';
+
+export type BackendType = 'letta' | 'local';
 
 export interface TherapistSettings {
+  backend: BackendType;
   lettaUrl: string;
+  // API keys are stored encrypted - read them through plugin.secrets
   apiKey: string;
   openaiApiKey: string;
   anthropicApiKey: string;
+  // Local OpenAI-compatible backend
+  localUrl: string;
+  localModel: string;
+  localApiKey: string;
+  localMemoryFolder: string;
+  backupFolder: string;
+  personaFolder: string;
   agentId: string;
   agentName: string;
   agentModel: string;
+  embeddingModel: string;
   therapistName: string;
+  // Agents besides the main therapist, and per-note choices between them
+  agents: AgentProfile[];
+  noteAgents: Record<string, string>;
   enabled: boolean;
   debounceMs: number;
+  streamResponses: boolean;
+  // Show pending insights beside their paragraph in the editor
+  inlineInsights: boolean;
+  // Ask for a mood reading of journal entries and keep it in frontmatter
+  trackMood: boolean;
+  // Letta agent that reads moods, created the first time one is read
+  moodAgentId: string;
+  // Notes waiting for a mood reading, with when the agent last read new journal in them
+  moodPending: Record<string, number>;
   // Vault indexing
   indexVault: boolean;
   includedFolders: string[];
   excludedFolders: string[];
   archiveId: string;
   lastIndexed: number;
+  // Messages waiting for the server to come back
+  outbox: QueuedMessage[];
+  // Hashes of the paragraphs the observer has sent, per note
+  observedNotes: Record<string, string[]>;
+  // Every insight offered, per note
+  insights: Record<string, Insight[]>;
+  // When insight ratings were last summarised into the agents' feedback blocks
+  lastFeedbackSync: number;
+  // Weekly and monthly journal reviews
+  reviewFolder: string;
+  reviewSchedule: ReviewSchedule;
+  lastReview: number;
+  // Token usage and USD budgets (0 = no budget)
+  usage: UsageEntry[];
+  dailyBudget: number;
+  monthlyBudget: number;
+  // How the API keys are encrypted
+  secretMode: SecretMode;
+  secretSalt: string;
+  secretCheck: string;
 }
 
 export const DEFAULT_SETTINGS: TherapistSettings = {
+  backend: 'letta',
   lettaUrl: 'http://localhost:8283',
   apiKey: '',
   openaiApiKey: '',
   anthropicApiKey: '',
+  localUrl: 'http://localhost:11434',
+  localModel: 'llama3.2',
+  localApiKey: '',
+  localMemoryFolder: 'Therapist/Memory',
+  backupFolder: 'Therapist/Backups',
+  personaFolder: 'Therapist/Personas',
   agentId: '',
   agentName: '',
   agentModel: '',
+  embeddingModel: 'letta/letta-free',
   therapistName: 'Therapist',
+  agents: [],
+  noteAgents: {},
   enabled: true,
   debounceMs: 3000,
+  streamResponses: true,
+  inlineInsights: false,
+  trackMood: false,
+  moodAgentId: '',
+  moodPending: {},
   // Vault indexing defaults
   indexVault: false,
   includedFolders: [],
   excludedFolders: [],
   archiveId: '',
   lastIndexed: 0,
+  outbox: [],
+  observedNotes: {},
+  insights: {},
+  lastFeedbackSync: 0,
+  reviewFolder: 'Therapist/Reviews',
+  reviewSchedule: 'off',
+  lastReview: 0,
+  usage: [],
+  dailyBudget: 0,
+  monthlyBudget: 0,
+  secretMode: 'device',
+  secretSalt: '',
+  secretCheck: '',
 };
 
 // Folder suggester modal
@@ -74,6 +159,72 @@ class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
   }
 }
 
+// Backup file picker - files in the backup folder first
+class BackupSuggestModal extends FuzzySuggestModal<TFile> {
+  private folder: string;
+  private onChoose: (file: TFile) => void;
+
+  constructor(app: App, folder: string, onChoose: (file: TFile) => void) {
+    super(app);
+    this.folder = folder;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose a therapist backup to import');
+  }
+
+  getItems(): TFile[] {
+    const files = this.app.vault.getFiles().filter(f => f.extension === 'json');
+    const inFolder = (f: TFile) => f.path.startsWith(this.folder + '/');
+    return files.sort((a, b) => Number(inFolder(b)) - Number(inFolder(a)) || b.stat.mtime - a.stat.mtime);
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+// Confirmation before deleting an agent, with the option to back it up first
+class DeleteAgentModal extends Modal {
+  private onDelete: (exportFirst: boolean) => Promise<void>;
+
+  constructor(app: App, onDelete: (exportFirst: boolean) => Promise<void>) {
+    super(app);
+    this.onDelete = onDelete;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Delete therapist?' });
+    contentEl.createEl('p', {
+      text: 'This permanently deletes the agent and everything it remembers from the Letta server. Export it first to keep a backup in your vault.',
+    });
+
+    const buttonsEl = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    const cancelBtn = buttonsEl.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const deleteBtn = buttonsEl.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+    deleteBtn.addEventListener('click', async () => {
+      this.close();
+      await this.onDelete(false);
+    });
+
+    const exportBtn = buttonsEl.createEl('button', { text: 'Export first', cls: 'mod-cta' });
+    exportBtn.addEventListener('click', async () => {
+      this.close();
+      await this.onDelete(true);
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
 export class TherapistSettingTab extends PluginSettingTab {
   plugin: TherapistPlugin;
 
@@ -86,15 +237,28 @@ export class TherapistSettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
-    const hasAgent = !!this.plugin.settings.agentId;
+    const isLocal = this.plugin.settings.backend === 'local';
+    const hasAgent = !!this.plugin.getAgentId();
+
+    // Know what the server supports before offering features that depend on it
+    if (!isLocal) {
+      await this.plugin.lettaService.getServerInfo().catch(() => null);
+    }
 
     // Fetch agent details if we have an agent but no cached info
-    if (hasAgent && !this.plugin.settings.agentName) {
-      const agent = await this.plugin.lettaService.getAgent(this.plugin.settings.agentId);
-      if (agent) {
-        this.plugin.settings.agentName = agent.name;
-        this.plugin.settings.agentModel = agent.model;
-        await this.plugin.saveSettings();
+    let agentMissing = false;
+    if (hasAgent && !isLocal && !this.plugin.settings.agentName) {
+      try {
+        const agent = await this.plugin.lettaService.getAgent(this.plugin.settings.agentId);
+        if (agent) {
+          this.plugin.settings.agentName = agent.name;
+          this.plugin.settings.agentModel = agent.model;
+          await this.plugin.saveSettings();
+        } else {
+          agentMissing = true;
+        }
+      } catch (error) {
+        console.warn('Could not fetch agent details:', error);
       }
     }
 
@@ -104,6 +268,24 @@ export class TherapistSettingTab extends PluginSettingTab {
     if (hasAgent) {
       containerEl.createEl('h2', { text: 'Your Therapist' });
 
+      if (agentMissing) {
+        new Setting(containerEl)
+          .setName('Agent not found')
+          .setDesc('Agent no longer exists on server — reconnect? This forgets the old agent ID so you can create a new therapist.')
+          .addButton(button => button
+            .setButtonText('Reconnect')
+            .setWarning()
+            .onClick(async () => {
+              this.plugin.settings.agentId = '';
+              this.plugin.settings.agentName = '';
+              this.plugin.settings.agentModel = '';
+              this.plugin.settings.archiveId = '';
+              await this.plugin.saveSettings();
+              this.plugin.updateStatusBar();
+              this.display();
+            }));
+      }
+
       // Therapist name - editable
       new Setting(containerEl)
         .setName('Name')
@@ -116,14 +298,50 @@ export class TherapistSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }));
 
-      // Model info (read-only)
+      // Model - the local backend's model is set under Server
       const modelSetting = new Setting(containerEl)
         .setName('Model');
       modelSetting.descEl.createSpan({
-        text: this.plugin.settings.agentModel || 'unknown',
+        text: (isLocal ? this.plugin.settings.localModel : this.plugin.settings.agentModel) || 'unknown',
         cls: 'therapist-model-badge'
       });
 
+      if (!isLocal) {
+        const currentModel = this.plugin.settings.agentModel;
+        let selectedModel = currentModel || 'letta/letta-free';
+        let modelDropdown: DropdownComponent;
+        modelSetting
+          .addDropdown(dropdown => {
+            modelDropdown = dropdown;
+            dropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
+            if (currentModel && currentModel !== 'letta/letta-free') {
+              dropdown.addOption(currentModel, currentModel);
+            }
+            dropdown.setValue(selectedModel);
+            dropdown.onChange(value => { selectedModel = value; });
+          })
+          .addButton(button => button
+            .setButtonText('Refresh Models')
+            .onClick(() => this.refreshModelOptions(modelDropdown, selectedModel)))
+          .addButton(button => button
+            .setButtonText('Change')
+            .onClick(async () => {
+              if (selectedModel === currentModel) return;
+              button.setDisabled(true);
+              try {
+                await this.plugin.lettaService.updateAgentModel(this.plugin.settings.agentId, selectedModel);
+                this.plugin.settings.agentModel = selectedModel;
+                await this.plugin.saveSettings();
+                new Notice(`${this.plugin.settings.therapistName} now uses ${selectedModel}`);
+                this.display();
+              } catch (error) {
+                console.error('Failed to change model:', error);
+                new Notice(`Failed to change model: ${describeError(error)}`);
+                button.setDisabled(false);
+              }
+            }));
+      }
+
       // Enable/disable toggle
       new Setting(containerEl)
         .setName('Active')
@@ -136,6 +354,15 @@ export class TherapistSettingTab extends PluginSettingTab {
             this.plugin.updateStatusBar();
           }));
 
+      new Setting(containerEl)
+        .setName('Persona')
+        .setDesc('How your therapist thinks and talks. Edits apply right away.')
+        .addButton(button => button
+          .setButtonText('Edit Persona')
+          .onClick(() => {
+            this.plugin.editPersona(this.plugin.getAgentId());
+          }));
+
       // View Memory button - always visible when agent exists
       new Setting(containerEl)
         .setName('Memory')
@@ -145,7 +372,10 @@ export class TherapistSettingTab extends PluginSettingTab {
           .onClick(() => {
             this.plugin.openMemoryViewer();
           }));
+    }
 
+    // The local backend has no server-side agent to copy or delete
+    if (hasAgent && !isLocal) {
       // Agent ID (collapsible/subtle)
       const idSetting = new Setting(containerEl)
         .setName('Agent ID')
@@ -158,19 +388,24 @@ export class TherapistSettingTab extends PluginSettingTab {
         .addButton(button => button
           .setButtonText('Delete')
           .setWarning()
-          .onClick(async () => {
-            try {
-              await this.plugin.lettaService.deleteAgent(this.plugin.settings.agentId);
-              new Notice('Agent deleted');
-            } catch (e) {
-              console.warn('Could not delete from server:', e);
-            }
-            this.plugin.settings.agentId = '';
-            this.plugin.settings.agentName = '';
-            this.plugin.settings.agentModel = '';
-            this.plugin.settings.therapistName = 'Therapist';
-            await this.plugin.saveSettings();
-            this.display();
+          .onClick(() => {
+            new DeleteAgentModal(this.app, async (exportFirst) => {
+              if (exportFirst && !(await this.plugin.exportAgent())) {
+                return; // Keep the agent if the backup failed
+              }
+              try {
+                await this.plugin.lettaService.deleteAgent(this.plugin.settings.agentId);
+                await this.plugin.deleteMoodAgent();
+                new Notice('Agent deleted');
+              } catch (e) {
+                console.warn('Could not delete from server:', e);
+                if (!(e instanceof LettaNotFoundError)) {
+                  new Notice(`Could not delete agent from server: ${describeError(e)}`);
+                }
+              }
+              await this.plugin.forgetMainAgent();
+              this.display();
+            }).open();
           }));
 
       // Show ID in description
@@ -178,6 +413,43 @@ export class TherapistSettingTab extends PluginSettingTab {
       const idCode = descEl.createEl('code', { text: this.plugin.settings.agentId });
       idCode.style.fontSize = '0.75em';
       idCode.style.userSelect = 'all';
+
+      new Setting(containerEl)
+        .setName('Backup')
+        .setDesc(`Export persona, memory and model settings to ${this.plugin.settings.backupFolder}`)
+        .addButton(button => button
+          .setButtonText('Export')
+          .onClick(async () => {
+            button.setDisabled(true);
+            await this.plugin.exportAgent();
+            button.setDisabled(false);
+          }));
+
+      new Setting(containerEl)
+        .setName('Backup folder')
+        .setDesc('Where exported backups are saved')
+        .addText(text => text
+          .setPlaceholder('Therapist/Backups')
+          .setValue(this.plugin.settings.backupFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.backupFolder = value || DEFAULT_SETTINGS.backupFolder;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Persona folder')
+        .setDesc('Where persona files are saved and read from')
+        .addText(text => text
+          .setPlaceholder('Therapist/Personas')
+          .setValue(this.plugin.settings.personaFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.personaFolder = value || DEFAULT_SETTINGS.personaFolder;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (hasAgent && !isLocal) {
+      this.displayOtherAgents(containerEl);
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -187,7 +459,26 @@ export class TherapistSettingTab extends PluginSettingTab {
       containerEl.createEl('h2', { text: 'Create Therapist' });
 
       let selectedModel = 'letta/letta-free';
-      let modelDropdown: any = null;
+      let modelDropdown: DropdownComponent;
+      let selectedPersona = '';
+
+      const personaSetting = new Setting(containerEl)
+        .setName('Persona')
+        .setDesc('Default coach')
+        .addButton(button => button
+          .setButtonText('Edit Persona')
+          .onClick(() => {
+            new PersonaEditorModal(this.app, {
+              title: 'Therapist persona',
+              initial: selectedPersona || ROLE_PERSONAS.therapist,
+              folder: this.plugin.settings.personaFolder,
+              submitText: 'Use persona',
+              onSubmit: async (persona) => {
+                selectedPersona = persona === ROLE_PERSONAS.therapist ? '' : persona;
+                personaSetting.setDesc(selectedPersona ? 'Custom persona' : 'Default coach');
+              },
+            }).open();
+          }));
 
       new Setting(containerEl)
         .setName('Model')
@@ -200,22 +491,9 @@ export class TherapistSettingTab extends PluginSettingTab {
         })
         .addButton(button => button
           .setButtonText('Refresh Models')
-          .onClick(async () => {
-            try {
-              const models = await this.plugin.lettaService.listModels();
-              modelDropdown.selectEl.empty();
-              modelDropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
-              for (const model of models) {
-                if (model.handle !== 'letta/letta-free') {
-                  modelDropdown.addOption(model.handle, model.handle);
-                }
-              }
-              modelDropdown.setValue(selectedModel);
-              new Notice(`Found ${models.length} models`);
-            } catch (error) {
-              new Notice('Failed to fetch models');
-            }
-          }));
+          .onClick(() => this.refreshModelOptions(modelDropdown, selectedModel)));
+
+      this.addEmbeddingSetting(containerEl, 'How notes and memories are embedded for search. Changing it later means re-embedding the vault.');
 
       new Setting(containerEl)
         .setName('')
@@ -229,7 +507,8 @@ export class TherapistSettingTab extends PluginSettingTab {
                 'therapist',
                 'therapist',
                 selectedModel,
-                'letta/letta-free'
+                this.plugin.settings.embeddingModel,
+                selectedPersona || undefined
               );
               this.plugin.settings.agentId = agentId;
               this.plugin.settings.agentModel = selectedModel;
@@ -239,11 +518,42 @@ export class TherapistSettingTab extends PluginSettingTab {
               this.display();
             } catch (error) {
               console.error('Failed to create agent:', error);
-              new Notice(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+              new Notice(`Failed: ${describeError(error)}`);
             }
           }));
     }
 
+    if (!hasAgent) {
+      new Setting(containerEl)
+        .setName('Restore from backup')
+        .setDesc('Recreate a therapist from an exported backup file, on this server')
+        .addButton(button => button
+          .setButtonText('Import')
+          .onClick(() => {
+            new BackupSuggestModal(this.app, this.plugin.settings.backupFolder, async (file) => {
+              try {
+                const { agentId, agentFile } = await importAgent(
+                  this.app,
+                  this.plugin.lettaService,
+                  file,
+                  (message) => new Notice(message)
+                );
+                this.plugin.settings.agentId = agentId;
+                this.plugin.settings.agentName = agentFile.agent.name;
+                this.plugin.settings.agentModel = agentFile.agent.model;
+                this.plugin.settings.therapistName = agentFile.therapistName;
+                this.plugin.settings.archiveId = '';
+                await this.plugin.saveSettings();
+                new Notice(`${agentFile.therapistName} restored`);
+                this.display();
+              } catch (error) {
+                console.error('Failed to import agent:', error);
+                new Notice(`Import failed: ${describeError(error)}`);
+              }
+            }).open();
+          }));
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // BEHAVIOR
     // ═══════════════════════════════════════════════════════════════
@@ -261,6 +571,143 @@ export class TherapistSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Stream responses')
+      .setDesc('Write conversation replies into the note as they are generated. Use "Stop therapist response" to cut one short.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.streamResponses)
+        .onChange(async (value) => {
+          this.plugin.settings.streamResponses = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show insights beside paragraphs')
+      .setDesc('Mark pending insights with 💭 at the end of the paragraph they are about. Click to read, then accept to write it into the note or dismiss it. The note is not changed until you accept.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.inlineInsights)
+        .onChange(async (value) => {
+          this.plugin.settings.inlineInsights = value;
+          await this.plugin.saveSettings();
+          this.plugin.inlineInsights.refresh();
+        }));
+
+    new Setting(containerEl)
+      .setName('Track mood')
+      .setDesc('Once a Journal section has been left alone for half an hour, read its mood - valence, energy and main emotions - and save it as mood-valence, mood-energy and mood-emotions in the note\'s frontmatter. The entry is read outside the therapist\'s conversation, at most once a day per note.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.trackMood)
+        .onChange(async (value) => {
+          this.plugin.settings.trackMood = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Open Chart')
+        .onClick(() => {
+          this.plugin.activateMoodView();
+        }));
+
+    if (!isLocal && this.plugin.settings.moodAgentId) {
+      const moodAgentSetting = new Setting(containerEl)
+        .setName('Mood reader agent')
+        .setDesc('A separate agent on your Letta server that reads moods, so journal entries don\'t pile up in the therapist\'s conversation. It is made again the next time a mood is read. ')
+        .addButton(button => button
+          .setButtonText('Delete')
+          .setWarning()
+          .onClick(async () => {
+            await this.plugin.deleteMoodAgent();
+            this.display();
+          }));
+      const moodAgentCode = moodAgentSetting.descEl.createEl('code', { text: this.plugin.settings.moodAgentId });
+      moodAgentCode.style.fontSize = '0.75em';
+      moodAgentCode.style.userSelect = 'all';
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // REVIEWS
+    // ═══════════════════════════════════════════════════════════════
+    containerEl.createEl('h3', { text: 'Reviews' });
+
+    new Setting(containerEl)
+      .setName('Write a review')
+      .setDesc('The analyst agent reads the Journal sections of recent notes and writes up patterns and suggestions, linking back to each entry. Without an analyst, the therapist writes it.')
+      .addButton(button => button
+        .setButtonText('Weekly')
+        .onClick(() => {
+          this.plugin.runReview('weekly');
+        }))
+      .addButton(button => button
+        .setButtonText('Monthly')
+        .onClick(() => {
+          this.plugin.runReview('monthly');
+        }));
+
+    new Setting(containerEl)
+      .setName('Schedule')
+      .setDesc('Write a review automatically once a week or month has passed since the last one')
+      .addDropdown(dropdown => dropdown
+        .addOption('off', 'Off')
+        .addOption('weekly', 'Weekly')
+        .addOption('monthly', 'Monthly')
+        .setValue(this.plugin.settings.reviewSchedule)
+        .onChange(async (value) => {
+          this.plugin.settings.reviewSchedule = value as ReviewSchedule;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Review folder')
+      .setDesc('Where review notes are written')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.reviewFolder)
+        .setValue(this.plugin.settings.reviewFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.reviewFolder = value || DEFAULT_SETTINGS.reviewFolder;
+          await this.plugin.saveSettings();
+        }));
+
+    // ═══════════════════════════════════════════════════════════════
+    // USAGE & BUDGETS
+    // ═══════════════════════════════════════════════════════════════
+    containerEl.createEl('h3', { text: 'Usage & Budgets' });
+
+    const today = this.plugin.usage.today();
+    const month = this.plugin.usage.thisMonth();
+    new Setting(containerEl)
+      .setName('Spending')
+      .setDesc(`Today ${formatCost(today.cost)} · this month ${formatCost(month.cost)} (estimated)`)
+      .addButton(button => button
+        .setButtonText('View Report')
+        .onClick(() => {
+          this.plugin.openUsageReport();
+        }));
+
+    const budgetDesc = `At ${Math.round(MANUAL_ONLY_AT * 100)}% the therapist stops observing and only answers when asked; at 100% it pauses. 0 for no budget.`;
+    new Setting(containerEl)
+      .setName('Daily budget (USD)')
+      .setDesc(budgetDesc)
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.dailyBudget ? String(this.plugin.settings.dailyBudget) : '')
+        .onChange(async (value) => {
+          const amount = parseFloat(value);
+          this.plugin.settings.dailyBudget = isNaN(amount) || amount < 0 ? 0 : amount;
+          await this.plugin.saveSettings();
+          this.plugin.updateStatusBar();
+        }));
+
+    new Setting(containerEl)
+      .setName('Monthly budget (USD)')
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.monthlyBudget ? String(this.plugin.settings.monthlyBudget) : '')
+        .onChange(async (value) => {
+          const amount = parseFloat(value);
+          this.plugin.settings.monthlyBudget = isNaN(amount) || amount < 0 ? 0 : amount;
+          await this.plugin.saveSettings();
+          this.plugin.updateStatusBar();
+        }));
+
     // ═══════════════════════════════════════════════════════════════
     // VAULT INDEXING (only show when agent exists)
     // ═══════════════════════════════════════════════════════════════
@@ -270,7 +717,14 @@ export class TherapistSettingTab extends PluginSettingTab {
         text: 'Index your vault so your therapist can reference your notes during sessions.',
         cls: 'setting-item-description',
       });
+    }
 
+    if (hasAgent && !isLocal && !this.plugin.lettaService.supports('archives')) {
+      containerEl.createEl('p', {
+        text: `Your Letta server doesn't support ${FEATURE_NAMES.archives}. Update Letta to let your therapist search your notes.`,
+        cls: 'setting-item-description',
+      });
+    } else if (hasAgent) {
       new Setting(containerEl)
         .setName('Enable vault indexing')
         .setDesc('Automatically index notes for the therapist to reference')
@@ -286,7 +740,7 @@ export class TherapistSettingTab extends PluginSettingTab {
         // Included folders
         const includedSetting = new Setting(containerEl)
           .setName('Included folders')
-          .setDesc('Only index notes in these folders. Leave empty to include all.')
+          .setDesc('Only index notes in these folders. Leave empty to include all. A note can opt in or out with "therapist: observe" or "therapist: off" in its frontmatter.')
           .addButton(button => button
             .setButtonText('Add folder')
             .onClick(() => {
@@ -347,6 +801,42 @@ export class TherapistSettingTab extends PluginSettingTab {
           }
         }
 
+        if (!isLocal && !this.plugin.settings.archiveId) {
+          this.addEmbeddingSetting(containerEl, 'Used when the vault archive is first created. Should match your therapist\'s embedding model.');
+        }
+
+        // Passages embedded with another model than the agent's can't be searched
+        if (!isLocal && this.plugin.settings.archiveId) {
+          let mismatch: { archive: string; agent: string } | null = null;
+          try {
+            mismatch = await this.plugin.checkEmbeddingMismatch();
+          } catch (error) {
+            console.warn('Could not compare embedding models:', error);
+          }
+          if (mismatch) {
+            new Setting(containerEl)
+              .setName('Embedding mismatch')
+              .setDesc(`Your notes were embedded with ${mismatch.archive} but your therapist uses ${mismatch.agent}, so it can't search them. Re-embedding rebuilds the index with ${mismatch.agent}.`)
+              .addButton(button => button
+                .setButtonText('Re-embed Vault')
+                .setWarning()
+                .onClick(async () => {
+                  button.setButtonText('Re-embedding...');
+                  button.setDisabled(true);
+                  try {
+                    await this.plugin.reembedVault();
+                    new Notice('Vault re-embedded');
+                    this.display();
+                  } catch (error) {
+                    console.error('Re-embedding failed:', error);
+                    new Notice(`Re-embedding failed: ${describeError(error)}`);
+                    button.setButtonText('Re-embed Vault');
+                    button.setDisabled(false);
+                  }
+                }));
+          }
+        }
+
         // Index status and actions
         const lastIndexed = this.plugin.settings.lastIndexed;
         const statusText = lastIndexed > 0
@@ -367,7 +857,7 @@ export class TherapistSettingTab extends PluginSettingTab {
                 this.display();
               } catch (error) {
                 console.error('Indexing failed:', error);
-                new Notice(`Indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                new Notice(`Indexing failed: ${describeError(error)}`);
                 button.setButtonText('Reindex Now');
                 button.setDisabled(false);
               }
@@ -385,6 +875,31 @@ export class TherapistSettingTab extends PluginSettingTab {
     // ═══════════════════════════════════════════════════════════════
     containerEl.createEl('h3', { text: 'Server' });
 
+    new Setting(containerEl)
+      .setName('Backend')
+      .setDesc('Letta server, or talk directly to an OpenAI-compatible endpoint (Ollama, llama.cpp) with memory kept in your vault')
+      .addDropdown(dropdown => dropdown
+        .addOption('letta', 'Letta server')
+        .addOption('local', 'Local (OpenAI-compatible)')
+        .setValue(this.plugin.settings.backend)
+        .onChange(async (value) => {
+          this.plugin.settings.backend = value as BackendType;
+          // Archives live on the backend that created them
+          this.plugin.settings.archiveId = '';
+          this.plugin.settings.lastIndexed = 0;
+          this.plugin.updateBackend();
+          await this.plugin.saveSettings();
+          this.plugin.updateStatusBar();
+          this.display();
+        }));
+
+    this.displayEncryption(containerEl);
+
+    if (isLocal) {
+      this.displayLocalBackend(containerEl);
+      return;
+    }
+
     new Setting(containerEl)
       .setName('Letta URL')
       .setDesc('Your Letta server address')
@@ -400,73 +915,387 @@ export class TherapistSettingTab extends PluginSettingTab {
         .setButtonText('Test')
         .onClick(async () => {
           try {
-            const url = `${this.plugin.settings.lettaUrl}/v1/health/`;
-            const response = await requestUrl({ url });
-            if (response.status === 200) {
-              new Notice('Connected!');
-            } else {
-              new Notice(`Error: ${response.status}`);
-            }
+            const info = await this.plugin.lettaService.getServerInfo(true);
+            const missing = (Object.keys(info.features) as ServerFeature[])
+              .filter(feature => !info.features[feature])
+              .map(feature => FEATURE_NAMES[feature]);
+            const version = info.version ? `Letta ${info.version}` : 'Letta';
+            new Notice(missing.length > 0
+              ? `Connected to ${version} — not available on this version: ${missing.join(', ')}`
+              : `Connected to ${version}`);
+            this.display();
           } catch (error) {
-            new Notice(`Connection failed`);
+            new Notice(`Connection failed: ${describeError(error)}`);
           }
         }));
 
-    new Setting(containerEl)
-      .setName('Letta API Key')
-      .setDesc('Only needed if your server requires authentication')
-      .addText(text => text
-        .setPlaceholder('sk-let-...')
-        .setValue(this.plugin.settings.apiKey)
-        .onChange(async (value) => {
-          this.plugin.settings.apiKey = value;
-          this.plugin.lettaService.setApiKey(value);
-          await this.plugin.saveSettings();
-        }));
+    this.addSecretSetting(containerEl, 'apiKey', 'Letta API Key', 'Only needed if your server requires authentication', 'sk-let-...',
+      async (value) => {
+        this.plugin.lettaService.setApiKey(value);
+      });
 
     // ═══════════════════════════════════════════════════════════════
     // API KEYS
     // ═══════════════════════════════════════════════════════════════
     containerEl.createEl('h3', { text: 'LLM API Keys' });
+    if (!this.plugin.lettaService.supports('providers')) {
+      containerEl.createEl('p', {
+        text: `Your Letta server doesn't support ${FEATURE_NAMES.providers} — set them in the server's environment instead.`,
+        cls: 'setting-item-description',
+      });
+      return;
+    }
     containerEl.createEl('p', {
       text: 'Required for cloud models. Leave blank if using letta-free or local Ollama.',
       cls: 'setting-item-description',
     });
 
+    this.addSecretSetting(containerEl, 'anthropicApiKey', 'Anthropic', 'For Claude models', 'sk-ant-...',
+      async (value) => {
+        if (!value) return;
+        try {
+          await this.plugin.lettaService.updateProviderKey('anthropic', value);
+        } catch (e) {
+          console.warn('Could not update provider key:', e);
+          new Notice(`Could not save Anthropic key on server: ${describeError(e)}`);
+        }
+      });
+
+    this.addSecretSetting(containerEl, 'openaiApiKey', 'OpenAI', 'For GPT models', 'sk-proj-...',
+      async (value) => {
+        if (!value) return;
+        try {
+          await this.plugin.lettaService.updateProviderKey('openai', value);
+        } catch (e) {
+          console.warn('Could not update provider key:', e);
+          new Notice(`Could not save OpenAI key on server: ${describeError(e)}`);
+        }
+      });
+  }
+
+  /**
+   * How API keys are protected: this device's key, or a passphrase asked for each session
+   */
+  private displayEncryption(containerEl: HTMLElement) {
+    const secrets = this.plugin.secrets;
+
+    const encryptionSetting = new Setting(containerEl)
+      .setName('API key encryption')
+      .setDesc(secrets.mode === 'passphrase'
+        ? 'Keys are encrypted with your passphrase and can be unlocked on any device.'
+        : 'Keys are encrypted with a key kept on this device. Other devices need the keys entered again.');
+
+    if (secrets.isLocked) {
+      encryptionSetting.addButton(button => button
+        .setButtonText('Unlock')
+        .setCta()
+        .onClick(() => this.plugin.unlockSecrets(() => this.display())));
+      return;
+    }
+
+    encryptionSetting.addDropdown(dropdown => dropdown
+      .addOption('device', 'This device')
+      .addOption('passphrase', 'Passphrase')
+      .setValue(secrets.mode)
+      .onChange(async (value) => {
+        // Show the mode in use until the switch has actually happened
+        dropdown.setValue(secrets.mode);
+        if (value === 'passphrase') {
+          new PassphraseModal(this.app, 'Protect API keys with a passphrase', true, async (passphrase) => {
+            try {
+              await secrets.usePassphrase(passphrase);
+            } catch (error) {
+              return describeError(error);
+            }
+            new Notice('API keys are now protected by your passphrase');
+            this.display();
+            return null;
+          }).open();
+        } else {
+          try {
+            await secrets.useDeviceKey();
+          } catch (error) {
+            new Notice(describeError(error));
+            return;
+          }
+          new Notice('API keys are now encrypted with this device\'s key');
+          this.display();
+        }
+      }));
+  }
+
+  /**
+   * Masked text field for an API key, stored through the secret store
+   */
+  private addSecretSetting(
+    containerEl: HTMLElement,
+    field: SecretField,
+    name: string,
+    desc: string,
+    placeholder: string,
+    onSaved: (value: string) => Promise<void>
+  ) {
+    const secrets = this.plugin.secrets;
     new Setting(containerEl)
-      .setName('Anthropic')
-      .setDesc('For Claude models')
-      .addText(text => text
-        .setPlaceholder('sk-ant-...')
-        .setValue(this.plugin.settings.anthropicApiKey)
-        .onChange(async (value) => {
-          this.plugin.settings.anthropicApiKey = value;
+      .setName(name)
+      .setDesc(secrets.isLocked ? 'Locked — unlock your API keys to change it' : desc)
+      .addText(text => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder(placeholder)
+          .setValue(secrets.get(field))
+          .setDisabled(secrets.isLocked);
+
+        // Saved once the field is committed (blur or Enter), never a half-typed key
+        text.inputEl.addEventListener('change', async () => {
+          const value = text.getValue();
+          if (value === secrets.get(field)) return;
+          try {
+            await secrets.set(field, value);
+          } catch (e) {
+            new Notice(describeError(e));
+            return;
+          }
+          await onSaved(value);
+        });
+      });
+  }
+
+  /**
+   * Fill a model dropdown with what the server offers, keeping the current choice
+   */
+  private async refreshModelOptions(dropdown: DropdownComponent, selected: string) {
+    try {
+      const models = await this.plugin.lettaService.listModels();
+      dropdown.selectEl.empty();
+      dropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
+      for (const model of models) {
+        if (model.handle !== 'letta/letta-free') {
+          dropdown.addOption(model.handle, model.handle);
+        }
+      }
+      dropdown.setValue(selected);
+      new Notice(`Found ${models.length} models`);
+    } catch (error) {
+      new Notice(`Failed to fetch models: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Embedding model picker - applies to agents and archives created from now on
+   */
+  private addEmbeddingSetting(containerEl: HTMLElement, desc: string) {
+    let embeddingDropdown: DropdownComponent;
+    const current = this.plugin.settings.embeddingModel;
+
+    new Setting(containerEl)
+      .setName('Embedding model')
+      .setDesc(desc)
+      .addDropdown(dropdown => {
+        embeddingDropdown = dropdown;
+        dropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
+        if (current !== 'letta/letta-free') {
+          dropdown.addOption(current, current);
+        }
+        dropdown.setValue(current);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.embeddingModel = value;
           await this.plugin.saveSettings();
-          if (value) {
-            try {
-              await this.plugin.lettaService.updateProviderKey('anthropic', value);
-            } catch (e) {
-              console.warn('Could not update provider key:', e);
+        });
+      })
+      .addButton(button => button
+        .setButtonText('Refresh')
+        .onClick(async () => {
+          try {
+            const models = await this.plugin.lettaService.listEmbeddingModels();
+            embeddingDropdown.selectEl.empty();
+            embeddingDropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
+            for (const model of models) {
+              if (model.handle !== 'letta/letta-free') {
+                embeddingDropdown.addOption(model.handle, model.handle);
+              }
+            }
+            embeddingDropdown.setValue(this.plugin.settings.embeddingModel);
+            new Notice(`Found ${models.length} embedding models`);
+          } catch (error) {
+            new Notice(`Failed to fetch embedding models: ${describeError(error)}`);
+          }
+        }));
+  }
+
+  /**
+   * Extra agents - an analyst or custom persona that answers in chosen folders
+   */
+  private displayOtherAgents(containerEl: HTMLElement) {
+    containerEl.createEl('h3', { text: 'Other Agents' });
+    containerEl.createEl('p', {
+      text: 'Agents that respond instead of your therapist in the folders you give them. Use "Switch agent for this note" to pick one for a single note.',
+      cls: 'setting-item-description',
+    });
+
+    for (const agent of this.plugin.settings.agents) {
+      const agentSetting = new Setting(containerEl)
+        .setName(agent.name)
+        .setDesc(`${agent.role} · ${agent.model}`)
+        .addButton(button => button
+          .setButtonText('Persona')
+          .onClick(() => {
+            this.plugin.editPersona(agent.id);
+          }))
+        .addButton(button => button
+          .setButtonText('Add folder')
+          .onClick(() => {
+            new FolderSuggestModal(this.app, async (folder) => {
+              const path = folder.path || '/';
+              if (!agent.folders.includes(path)) {
+                agent.folders.push(path);
+                await this.plugin.saveSettings();
+                this.display();
+              }
+            }).open();
+          }))
+        .addButton(button => button
+          .setButtonText('Remove')
+          .setWarning()
+          .onClick(async () => {
+            // Only forgets the agent here - it stays on the server
+            this.plugin.settings.agents = this.plugin.settings.agents.filter(a => a.id !== agent.id);
+            for (const path of Object.keys(this.plugin.settings.noteAgents)) {
+              if (this.plugin.settings.noteAgents[path] === agent.id) {
+                delete this.plugin.settings.noteAgents[path];
+              }
+            }
+            await this.plugin.saveSettings();
+            this.plugin.updateStatusBar();
+            this.display();
+          }));
+
+      if (agent.folders.length > 0) {
+        const listEl = agentSetting.settingEl.createDiv({ cls: 'therapist-folder-list' });
+        for (const folder of agent.folders) {
+          const itemEl = listEl.createDiv({ cls: 'therapist-folder-item' });
+          itemEl.createSpan({ text: folder || '/', cls: 'therapist-folder-path' });
+          const removeBtn = itemEl.createEl('button', { text: '×', cls: 'therapist-folder-remove' });
+          removeBtn.addEventListener('click', async () => {
+            agent.folders = agent.folders.filter(f => f !== folder);
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        }
+      }
+    }
+
+    let name = '';
+    let role: AgentRole = 'analyst';
+    let selectedModel = 'letta/letta-free';
+    let modelDropdown: DropdownComponent;
+
+    new Setting(containerEl)
+      .setName('New agent')
+      .setDesc('Analysts look for patterns across entries; custom agents start with a blank persona you can edit in memory')
+      .addText(text => text
+        .setPlaceholder('Name')
+        .onChange(value => { name = value.trim(); }))
+      .addDropdown(dropdown => dropdown
+        .addOption('analyst', 'Analyst')
+        .addOption('therapist', 'Therapist')
+        .addOption('custom', 'Custom')
+        .setValue(role)
+        .onChange(value => { role = value as AgentRole; }));
+
+    new Setting(containerEl)
+      .setName('')
+      .addDropdown(dropdown => {
+        modelDropdown = dropdown;
+        dropdown.addOption('letta/letta-free', 'letta/letta-free (free)');
+        dropdown.setValue(selectedModel);
+        dropdown.onChange(value => { selectedModel = value; });
+      })
+      .addButton(button => button
+        .setButtonText('Refresh Models')
+        .onClick(() => this.refreshModelOptions(modelDropdown, selectedModel)))
+      .addButton(button => button
+        .setButtonText('Create Agent')
+        .setCta()
+        .onClick(async () => {
+          const agentName = name || role;
+          button.setDisabled(true);
+          try {
+            new Notice(`Creating ${agentName} with ${selectedModel}...`);
+            const agentId = await this.plugin.lettaService.createAgent(
+              agentName,
+              role,
+              selectedModel,
+              this.plugin.settings.embeddingModel
+            );
+            if (this.plugin.settings.archiveId) {
+              await this.plugin.lettaService.attachArchive(agentId, this.plugin.settings.archiveId);
             }
+            this.plugin.settings.agents.push({
+              id: agentId,
+              name: agentName,
+              role,
+              model: selectedModel,
+              folders: [],
+            });
+            await this.plugin.saveSettings();
+            new Notice(`${agentName} created — add a folder for it to respond in`);
+            this.display();
+          } catch (error) {
+            console.error('Failed to create agent:', error);
+            new Notice(`Failed: ${describeError(error)}`);
+            button.setDisabled(false);
           }
         }));
+  }
+
+  private displayLocalBackend(containerEl: HTMLElement) {
+    const local = this.plugin.localBackend;
 
     new Setting(containerEl)
-      .setName('OpenAI')
-      .setDesc('For GPT models')
+      .setName('Endpoint URL')
+      .setDesc('Base URL of an OpenAI-compatible server, e.g. Ollama or llama.cpp')
       .addText(text => text
-        .setPlaceholder('sk-proj-...')
-        .setValue(this.plugin.settings.openaiApiKey)
+        .setPlaceholder('http://localhost:11434')
+        .setValue(this.plugin.settings.localUrl)
         .onChange(async (value) => {
-          this.plugin.settings.openaiApiKey = value;
+          this.plugin.settings.localUrl = value;
+          local.setOptions({ url: value });
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Test')
+        .onClick(async () => {
+          new Notice(await local.healthCheck() ? 'Connected!' : 'Connection failed');
+        }));
+
+    new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Model name as the endpoint knows it')
+      .addText(text => text
+        .setPlaceholder('llama3.2')
+        .setValue(this.plugin.settings.localModel)
+        .onChange(async (value) => {
+          this.plugin.settings.localModel = value;
+          local.setOptions({ model: value });
+          await this.plugin.saveSettings();
+        }));
+
+    this.addSecretSetting(containerEl, 'localApiKey', 'API Key', 'Only needed if your endpoint requires authentication', 'sk-...',
+      async (value) => {
+        local.setOptions({ apiKey: value });
+      });
+
+    new Setting(containerEl)
+      .setName('Memory folder')
+      .setDesc('Where memory blocks, archival memory and conversation history are stored in your vault')
+      .addText(text => text
+        .setPlaceholder('Therapist/Memory')
+        .setValue(this.plugin.settings.localMemoryFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.localMemoryFolder = value || DEFAULT_SETTINGS.localMemoryFolder;
+          local.setOptions({ folder: this.plugin.settings.localMemoryFolder });
           await this.plugin.saveSettings();
-          if (value) {
-            try {
-              await this.plugin.lettaService.updateProviderKey('openai', value);
-            } catch (e) {
-              console.warn('Could not update provider key:', e);
-            }
-          }
         }));
   }
 }
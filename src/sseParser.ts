@@ -0,0 +1,90 @@
+/**
+ * Server-sent events parsing for Letta's streaming endpoints
+ */
+
+export interface SSEParseResult {
+  events: string[];
+  rest: string;
+}
+
+/**
+ * Split a buffer of SSE text into complete event payloads
+ * Returns the `data:` payloads of every complete event plus any trailing partial event.
+ * Once the stream has ended (final), the trailing event counts as complete.
+ */
+export function splitSSEEvents(buffer: string, final: boolean = false): SSEParseResult {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const blocks = normalized.split('\n\n');
+  // The last block is incomplete until a blank line terminates it
+  const rest = final ? '' : blocks.pop() ?? '';
+  const events: string[] = [];
+
+  for (const block of blocks) {
+    const dataLines = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''));
+    if (dataLines.length > 0) {
+      events.push(dataLines.join('\n'));
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Extract the assistant text delta from a single streamed Letta message
+ * Returns null for pings, reasoning, tool calls and the [DONE] sentinel
+ */
+export function getAssistantDelta(payload: string): string | null {
+  if (payload.trim() === '[DONE]') return null;
+
+  let data: { message_type?: string; content?: unknown };
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return null;
+  }
+
+  if (data.message_type !== 'assistant_message') return null;
+
+  if (typeof data.content === 'string') {
+    return data.content;
+  }
+  // Newer servers send content as an array of text parts
+  if (Array.isArray(data.content)) {
+    return data.content
+      .map((part: { text?: string }) => part?.text ?? '')
+      .join('');
+  }
+  return null;
+}
+
+/**
+ * Extract the text delta from a streamed OpenAI-compatible chat completion chunk
+ */
+export function getChatCompletionDelta(payload: string): string | null {
+  if (payload.trim() === '[DONE]') return null;
+
+  try {
+    const data = JSON.parse(payload);
+    const content = data?.choices?.[0]?.delta?.content;
+    return typeof content === 'string' ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the usage object from an OpenAI-style chunk
+ * Only the final chunk carries one, and only when the request asked for it.
+ */
+export function getChatCompletionUsage(payload: string): unknown {
+  if (payload.trim() === '[DONE]') return null;
+
+  try {
+    return JSON.parse(payload)?.usage ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Token usage and cost accounting
+ * Usage is kept per day, agent, note and model so it can be reported any of
+ * those ways, and checked against daily / monthly budgets.
+ */
+
+import type { TokenUsage } from './agentResponse';
+
+export interface UsageEntry {
+  /** Local date, YYYY-MM-DD */
+  day: string;
+  agentId: string;
+  notePath: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated USD */
+  cost: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/** USD budgets, 0 for none */
+export interface Budgets {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * ok - everything runs
+ * manual-only - close to a budget, the observer stops but asking still works
+ * paused - over a budget, nothing is sent until it resets
+ */
+export type BudgetState = 'ok' | 'manual-only' | 'paused';
+
+export type UsageGrouping = 'day' | 'agentId' | 'notePath' | 'model';
+
+/** Share of a budget at which the observer stops */
+export const MANUAL_ONLY_AT = 0.8;
+/** Usage of agents that have been deleted is kept under this id, so it still counts */
+export const DELETED_AGENT_ID = 'deleted';
+
+const KEEP_DAYS = 400;
+
+// USD per million tokens, most specific first
+const MODEL_PRICES: Array<{ match: RegExp; input: number; output: number }> = [
+  { match: /claude-(3-)?opus|claude-opus/, input: 15, output: 75 },
+  { match: /claude-(3-5-|3-7-)?sonnet|claude-sonnet/, input: 3, output: 15 },
+  { match: /claude-3-5-haiku|claude-haiku/, input: 0.8, output: 4 },
+  { match: /claude-3-haiku/, input: 0.25, output: 1.25 },
+  { match: /gpt-4o-mini/, input: 0.15, output: 0.6 },
+  { match: /gpt-4o/, input: 2.5, output: 10 },
+  { match: /gpt-4\.1-nano/, input: 0.1, output: 0.4 },
+  { match: /gpt-4\.1-mini/, input: 0.4, output: 1.6 },
+  { match: /gpt-4\.1/, input: 2, output: 8 },
+  { match: /gpt-5-nano/, input: 0.05, output: 0.4 },
+  { match: /gpt-5-mini/, input: 0.25, output: 2 },
+  { match: /gpt-5/, input: 1.25, output: 10 },
+  { match: /o[34]-mini/, input: 1.1, output: 4.4 },
+];
+
+// Providers that cost nothing per token
+const FREE_PROVIDERS = ['letta', 'ollama', 'local'];
+
+/**
+ * Estimated USD cost of a response; unknown and free models cost 0
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const provider = model.includes('/') ? model.split('/')[0] : '';
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+
+  const price = MODEL_PRICES.find(p => p.match.test(model));
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+}
+
+/**
+ * Whether the model has a known price - reports flag the ones that don't
+ */
+export function hasKnownPrice(model: string): boolean {
+  const provider = model.includes('/') ? model.split('/')[0] : '';
+  return FREE_PROVIDERS.includes(provider) || MODEL_PRICES.some(p => p.match.test(model));
+}
+
+export function dayKey(date: Date): string {
+  const pad = (n: number) => ('0' + n).slice(-2);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Usage log over a caller-owned array (the plugin settings), saved after each change
+ */
+export class UsageTracker {
+  private entries: UsageEntry[];
+  private save: () => Promise<void>;
+
+  constructor(entries: UsageEntry[], save: () => Promise<void>) {
+    this.entries = entries;
+    this.save = save;
+  }
+
+  async record(agentId: string, notePath: string, model: string, usage: TokenUsage, now: Date = new Date()): Promise<void> {
+    const day = dayKey(now);
+    let entry = this.entries.find(e =>
+      e.day === day && e.agentId === agentId && e.notePath === notePath && e.model === model
+    );
+    if (!entry) {
+      entry = { day, agentId, notePath, model, calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+      this.entries.push(entry);
+    }
+    entry.calls++;
+    entry.promptTokens += usage.promptTokens;
+    entry.completionTokens += usage.completionTokens;
+    entry.cost += estimateCost(model, usage);
+
+    this.prune(now);
+    await this.save();
+  }
+
+  totals(filter: (entry: UsageEntry) => boolean = () => true): UsageTotals {
+    const totals: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+    for (const entry of this.entries) {
+      if (!filter(entry)) continue;
+      totals.calls += entry.calls;
+      totals.promptTokens += entry.promptTokens;
+      totals.completionTokens += entry.completionTokens;
+      totals.cost += entry.cost;
+    }
+    return totals;
+  }
+
+  /**
+   * Move an agent's usage to another id, e.g. DELETED_AGENT_ID once it is gone
+   */
+  async reassign(fromAgentId: string, toAgentId: string): Promise<void> {
+    let changed = false;
+    for (const entry of this.entries) {
+      if (entry.agentId === fromAgentId) {
+        entry.agentId = toAgentId;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  today(now: Date = new Date()): UsageTotals {
+    const day = dayKey(now);
+    return this.totals(e => e.day === day);
+  }
+
+  thisMonth(now: Date = new Date()): UsageTotals {
+    const month = dayKey(now).slice(0, 7);
+    return this.totals(e => e.day.startsWith(month));
+  }
+
+  /**
+   * Totals grouped by one field, largest cost first, optionally from a day onwards
+   */
+  summarize(grouping: UsageGrouping, since?: string): Array<{ key: string; totals: UsageTotals }> {
+    const groups = new Map<string, UsageTotals>();
+    for (const entry of this.entries) {
+      if (since && entry.day < since) continue;
+      const key = entry[grouping];
+      const totals = groups.get(key) ?? { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+      totals.calls += entry.calls;
+      totals.promptTokens += entry.promptTokens;
+      totals.completionTokens += entry.completionTokens;
+      totals.cost += entry.cost;
+      groups.set(key, totals);
+    }
+
+    const rows: Array<{ key: string; totals: UsageTotals }> = [];
+    groups.forEach((totals, key) => rows.push({ key, totals }));
+    if (grouping === 'day') {
+      return rows.sort((a, b) => b.key.localeCompare(a.key));
+    }
+    return rows.sort((a, b) =>
+      b.totals.cost - a.totals.cost
+      || (b.totals.promptTokens + b.totals.completionTokens) - (a.totals.promptTokens + a.totals.completionTokens)
+    );
+  }
+
+  /**
+   * Where spending stands against the budgets
+   */
+  budgetState(budgets: Budgets, now: Date = new Date()): BudgetState {
+    const shares: number[] = [];
+    if (budgets.daily > 0) shares.push(this.today(now).cost / budgets.daily);
+    if (budgets.monthly > 0) shares.push(this.thisMonth(now).cost / budgets.monthly);
+
+    const highest = Math.max(0, ...shares);
+    if (highest >= 1) return 'paused';
+    if (highest >= MANUAL_ONLY_AT) return 'manual-only';
+    return 'ok';
+  }
+
+  private prune(now: Date) {
+    const cutoff = dayKey(new Date(now.getTime() - KEEP_DAYS * 24 * 60 * 60 * 1000));
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (this.entries[i].day < cutoff) {
+        this.entries.splice(i, 1);
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OfflineQueue, QueuedMessage } from '../src/OfflineQueue';
+import { LettaAuthError, LettaNetworkError, LettaNotFoundError, LettaTimeoutError } from '../src/errors';
+
+function message(content: string, timestamp: number): Omit<QueuedMessage, 'id'> {
+  return { kind: 'observe', agentId: 'agent-1', notePath: 'Journal/today.md', content, timestamp };
+}
+
+describe('OfflineQueue', () => {
+  it('stores messages in the caller-owned array and saves', async () => {
+    const items: QueuedMessage[] = [];
+    const save = vi.fn().mockResolvedValue(undefined);
+    const queue = new OfflineQueue(items, save);
+
+    await queue.enqueue(message('first', 1));
+
+    expect(items).toHaveLength(1);
+    expect(items[0].content).toBe('first');
+    expect(items[0].id).toBeTruthy();
+    expect(queue.size).toBe(1);
+    expect(save).toHaveBeenCalled();
+  });
+
+  it('replays messages oldest first and empties the queue', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('first', 1));
+    await queue.enqueue(message('second', 2));
+    const sent: string[] = [];
+
+    const delivered = await queue.flush(async (m) => { sent.push(m.content); });
+
+    expect(delivered).toBe(2);
+    expect(sent).toEqual(['first', 'second']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('stops at the first transient failure and keeps the rest in order', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('first', 1));
+    await queue.enqueue(message('second', 2));
+    await queue.enqueue(message('third', 3));
+
+    const send = vi.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new LettaNetworkError('down'));
+    const delivered = await queue.flush(send);
+
+    expect(delivered).toBe(1);
+    expect(items.map(i => i.content)).toEqual(['second', 'third']);
+  });
+
+  it('drops messages whose agent is gone and reports them', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('orphan', 1));
+    await queue.enqueue(message('next', 2));
+    const sent: string[] = [];
+    const dropped: string[] = [];
+
+    await queue.flush(async (m) => {
+      if (m.content === 'orphan') throw new LettaNotFoundError('gone', 404, 'agent');
+      sent.push(m.content);
+    }, (m) => dropped.push(m.content));
+
+    expect(sent).toEqual(['next']);
+    expect(dropped).toEqual(['orphan']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps every message and throws when the server refuses the request', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('first', 1));
+    await queue.enqueue(message('second', 2));
+    const onDrop = vi.fn();
+
+    await expect(queue.flush(async () => {
+      throw new LettaAuthError('bad key', 401);
+    }, onDrop)).rejects.toBeInstanceOf(LettaAuthError);
+
+    expect(items.map(i => i.content)).toEqual(['first', 'second']);
+    expect(onDrop).not.toHaveBeenCalled();
+    expect(queue.isFlushing).toBe(false);
+  });
+
+  it('drops a message whose replay timed out rather than sending it twice', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('slow', 1));
+    await queue.enqueue(message('next', 2));
+    const sent: string[] = [];
+
+    const delivered = await queue.flush(async (m) => {
+      if (m.content === 'slow') throw new LettaTimeoutError('timed out', 120000);
+      sent.push(m.content);
+    });
+
+    expect(delivered).toBe(1);
+    expect(sent).toEqual(['next']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('drops the messages of a removed agent', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+    await queue.enqueue(message('kept', 1));
+    await queue.enqueue({ ...message('gone', 2), agentId: 'agent-2' });
+
+    await queue.removeAgent('agent-2');
+
+    expect(items.map(i => i.content)).toEqual(['kept']);
+  });
+
+  it('caps the number of queued messages, dropping the oldest', async () => {
+    const items: QueuedMessage[] = [];
+    const queue = new OfflineQueue(items, async () => {});
+
+    for (let i = 0; i < 205; i++) {
+      await queue.enqueue(message(`m${i}`, i));
+    }
+
+    expect(queue.size).toBe(200);
+    expect(items[0].content).toBe('m5');
+  });
+});
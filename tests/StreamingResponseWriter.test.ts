@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { Editor } from 'obsidian';
+import { StreamingResponseWriter } from '../src/StreamingResponseWriter';
+import { formatResponse } from '../src/contentParser';
+
+interface Pos {
+  line: number;
+  ch: number;
+}
+
+/** Just enough of an editor over a string, with the cursor at the end */
+function fakeEditor(initial: string) {
+  let doc = initial;
+  const posToOffset = (pos: Pos) => {
+    const lines = doc.split('\n');
+    let offset = 0;
+    for (let i = 0; i < pos.line; i++) offset += lines[i].length + 1;
+    return offset + pos.ch;
+  };
+  const offsetToPos = (offset: number): Pos => {
+    const before = doc.slice(0, offset).split('\n');
+    return { line: before.length - 1, ch: before[before.length - 1].length };
+  };
+  const editor = {
+    getCursor: () => offsetToPos(doc.length),
+    getLine: (line: number) => doc.split('\n')[line],
+    posToOffset,
+    offsetToPos,
+    replaceRange: (text: string, from: Pos, to: Pos) => {
+      doc = doc.slice(0, posToOffset(from)) + text + doc.slice(posToOffset(to));
+    },
+    setCursor: () => {},
+  };
+  return {
+    editor: editor as unknown as Editor,
+    text: () => doc,
+    /** An edit by the user, with the position mapping CodeMirror would report */
+    insert(at: number, text: string) {
+      doc = doc.slice(0, at) + text + doc.slice(at);
+      return (pos: number, assoc: number) => (pos > at || (pos === at && assoc > 0) ? pos + text.length : pos);
+    },
+  };
+}
+
+describe('StreamingResponseWriter', () => {
+  it('streams the reply after the cursor line', () => {
+    const note = fakeEditor('Dear diary');
+    const writer = new StreamingResponseWriter(note.editor, 'Therapist');
+
+    writer.begin();
+    writer.update('Hello');
+    writer.finish('Hello there');
+
+    expect(note.text()).toBe('Dear diary' + formatResponse('Hello there', 'Therapist'));
+  });
+
+  it('keeps text typed above the reply while it streams', () => {
+    const note = fakeEditor('First line\nDear diary');
+    const writer = new StreamingResponseWriter(note.editor, 'Therapist');
+
+    writer.begin();
+    writer.update('Hel');
+    writer.mapChanges(note.insert(0, 'Pasted above\n'));
+    writer.update('Hello');
+    writer.finish('Hello there');
+
+    expect(note.text()).toBe('Pasted above\nFirst line\nDear diary' + formatResponse('Hello there', 'Therapist'));
+  });
+
+  it('keeps text typed right before the reply out of it', () => {
+    const note = fakeEditor('Dear diary');
+    const writer = new StreamingResponseWriter(note.editor, 'Therapist');
+
+    writer.begin();
+    writer.mapChanges(note.insert('Dear diary'.length, '!'));
+    writer.finish('Hello');
+
+    expect(note.text()).toBe('Dear diary!' + formatResponse('Hello', 'Therapist'));
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseAgentFile, agentFileName, AgentFileError, AGENT_FILE_FORMAT, AGENT_FILE_VERSION } from '../src/agentFile';
+
+function backup(overrides: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    format: AGENT_FILE_FORMAT,
+    version: AGENT_FILE_VERSION,
+    exportedAt: '2026-01-09T14:05:00.000Z',
+    agent: { name: 'therapist', model: 'anthropic/claude-sonnet-4', embedding: 'letta/letta-free' },
+    therapistName: 'Sage',
+    blocks: [
+      { label: 'persona', value: 'You are my coach.' },
+      { label: 'human', value: 'Likes running.' },
+      { label: 'goals', value: 'Sleep by 11.' },
+    ],
+    archival: [{ text: 'Ran 5k on Monday', created_at: '2026-01-05T08:00:00Z' }],
+    ...overrides,
+  });
+}
+
+describe('agentFile', () => {
+  describe('parseAgentFile', () => {
+    it('reads a valid backup', () => {
+      const parsed = parseAgentFile(backup());
+
+      expect(parsed.agent.model).toBe('anthropic/claude-sonnet-4');
+      expect(parsed.therapistName).toBe('Sage');
+      expect(parsed.blocks.map(b => b.label)).toEqual(['persona', 'human', 'goals']);
+      expect(parsed.archival).toEqual([{ text: 'Ran 5k on Monday', created_at: '2026-01-05T08:00:00Z' }]);
+    });
+
+    it('fills defaults for optional fields', () => {
+      const parsed = parseAgentFile(backup({
+        agent: { name: 'therapist', model: 'letta/letta-free' },
+        therapistName: undefined,
+        archival: undefined,
+      }));
+
+      expect(parsed.agent.embedding).toBe('letta/letta-free');
+      expect(parsed.therapistName).toBe('Therapist');
+      expect(parsed.archival).toEqual([]);
+    });
+
+    it('rejects files that are not backups', () => {
+      expect(() => parseAgentFile('{oops')).toThrow(AgentFileError);
+      expect(() => parseAgentFile('{"hello":"world"}')).toThrow('Not a therapist backup file');
+    });
+
+    it('rejects backups from a newer format version', () => {
+      expect(() => parseAgentFile(backup({ version: AGENT_FILE_VERSION + 1 }))).toThrow('newer plugin version');
+    });
+
+    it('requires a persona block', () => {
+      expect(() => parseAgentFile(backup({ blocks: [{ label: 'human', value: 'x' }] }))).toThrow('persona');
+    });
+  });
+
+  describe('agentFileName', () => {
+    it('builds a timestamped, filesystem-safe name', () => {
+      const name = agentFileName('my/therapist', new Date(2026, 0, 9, 14, 5, 7));
+
+      expect(name).toBe('my-therapist-2026-01-09-140507.json');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAgentMessages,
+  describeToolCall,
+  isMemoryEdit,
+  hasSteps,
+  parseUsage,
+  parseHistoryMessages,
+} from '../src/agentResponse';
+
+describe('agentResponse', () => {
+  describe('parseAgentMessages', () => {
+    it('keeps reasoning, tool calls and the assistant message', () => {
+      const response = parseAgentMessages([
+        { id: 'm1', message_type: 'reasoning_message', reasoning: 'They sound tired.' },
+        {
+          id: 'm2',
+          message_type: 'tool_call_message',
+          tool_call: { name: 'archival_memory_search', arguments: '{"query":"sleep"}', tool_call_id: 'c1' },
+        },
+        { id: 'm3', message_type: 'tool_return_message', tool_return: 'Slept badly last week', tool_call_id: 'c1', status: 'success' },
+        { id: 'm4', message_type: 'assistant_message', content: 'How did you sleep?' },
+      ]);
+
+      expect(response.text).toBe('How did you sleep?');
+      expect(response.reasoning).toEqual(['They sound tired.']);
+      expect(response.toolCalls).toEqual([
+        {
+          id: 'c1',
+          name: 'archival_memory_search',
+          arguments: '{"query":"sleep"}',
+          result: 'Slept badly last week',
+          status: 'success',
+        },
+      ]);
+    });
+
+    it('merges streamed chunks that share an id', () => {
+      const response = parseAgentMessages([
+        { id: 'r1', message_type: 'reasoning_message', reasoning: 'Hmm, ' },
+        { id: 'r1', message_type: 'reasoning_message', reasoning: 'a pattern.' },
+        { id: 't1', message_type: 'tool_call_message', tool_call: { name: 'core_memory_append', arguments: '{"label":', tool_call_id: 'c1' } },
+        { id: 't1', message_type: 'tool_call_message', tool_call: { arguments: '"human"}', tool_call_id: 'c1' } },
+        { id: 'a1', message_type: 'assistant_message', content: 'Hi ' },
+        { id: 'a1', message_type: 'assistant_message', content: 'there' },
+      ]);
+
+      expect(response.reasoning).toEqual(['Hmm, a pattern.']);
+      expect(response.toolCalls[0].name).toBe('core_memory_append');
+      expect(response.toolCalls[0].arguments).toBe('{"label":"human"}');
+      expect(response.text).toBe('Hi there');
+    });
+
+    it('puts separate assistant messages in separate paragraphs', () => {
+      const response = parseAgentMessages([
+        { id: 'a1', message_type: 'assistant_message', content: 'That sounds hard.' },
+        { id: 'a2', message_type: 'assistant_message', content: 'What helped last time?' },
+        { message_type: 'assistant_message', content: 'Take your time.' },
+      ]);
+
+      expect(response.text).toBe('That sounds hard.\n\nWhat helped last time?\n\nTake your time.');
+    });
+
+    it('drops the send_message reply tool', () => {
+      const response = parseAgentMessages([
+        { message_type: 'tool_call_message', tool_call: { name: 'send_message', arguments: '{}', tool_call_id: 'c1' } },
+        { message_type: 'assistant_message', content: 'Hello' },
+      ]);
+
+      expect(response.toolCalls).toEqual([]);
+    });
+
+    it('falls back to other message content when there is no assistant message', () => {
+      const response = parseAgentMessages([{ message_type: 'other', content: 'fallback content' }]);
+
+      expect(response.text).toBe('fallback content');
+    });
+  });
+
+  describe('describeToolCall', () => {
+    it('summarises searches and memory edits', () => {
+      const call = (name: string, args: object) => ({ id: 'x', name, arguments: JSON.stringify(args) });
+
+      expect(describeToolCall(call('archival_memory_search', { query: 'work' })))
+        .toBe('Searched long-term memory for “work”');
+      expect(describeToolCall(call('core_memory_append', { label: 'human', content: 'Runs daily' })))
+        .toBe('Added to human: “Runs daily”');
+      expect(describeToolCall(call('core_memory_replace', { label: 'human', old_content: 'a', new_content: 'b' })))
+        .toBe('Changed human: “a” → “b”');
+      expect(describeToolCall(call('web_search', {}))).toBe('Used web_search');
+    });
+
+    it('copes with arguments that are not valid JSON', () => {
+      expect(describeToolCall({ id: 'x', name: 'archival_memory_insert', arguments: '{' }))
+        .toBe('Saved to long-term memory: “”');
+    });
+  });
+
+  describe('isMemoryEdit / hasSteps', () => {
+    it('flags memory-editing tools', () => {
+      expect(isMemoryEdit({ id: 'x', name: 'core_memory_replace', arguments: '' })).toBe(true);
+      expect(isMemoryEdit({ id: 'x', name: 'archival_memory_search', arguments: '' })).toBe(false);
+    });
+
+    it('reports whether a response has anything besides text', () => {
+      expect(hasSteps({ text: 'hi', reasoning: [], toolCalls: [] })).toBe(false);
+      expect(hasSteps({ text: 'hi', reasoning: ['x'], toolCalls: [] })).toBe(true);
+    });
+  });
+
+  describe('usage', () => {
+    it('reads the usage object of a response', () => {
+      expect(parseUsage({ prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 }))
+        .toEqual({ promptTokens: 120, completionTokens: 30, totalTokens: 150 });
+      expect(parseUsage(undefined)).toBeUndefined();
+      expect(parseUsage({ prompt_tokens: 0, completion_tokens: 0 })).toBeUndefined();
+    });
+
+    it('adds up usage_statistics messages from a stream', () => {
+      const response = parseAgentMessages([
+        { id: 'm1', message_type: 'assistant_message', content: 'Hello' },
+        { id: 'u1', message_type: 'usage_statistics', prompt_tokens: 100, completion_tokens: 10 },
+        { id: 'u2', message_type: 'usage_statistics', prompt_tokens: 50, completion_tokens: 5 },
+      ]);
+      expect(response.usage).toEqual({ promptTokens: 150, completionTokens: 15, totalTokens: 165 });
+    });
+  });
+
+  describe('parseHistoryMessages', () => {
+    it('keeps only what the user and the agent said', () => {
+      const history = parseHistoryMessages([
+        { id: 'm1', message_type: 'user_message', content: 'Hello', date: '2026-10-01T10:00:00Z' },
+        { id: 'm2', message_type: 'reasoning_message', reasoning: 'Greet back.' },
+        { id: 'm3', message_type: 'tool_call_message', tool_call: { name: 'send_message' } },
+        { id: 'm4', message_type: 'assistant_message', content: [{ type: 'text', text: 'Hi there' }], date: '2026-10-01T10:00:05Z' },
+      ]);
+      expect(history).toEqual([
+        { role: 'user', content: 'Hello', date: '2026-10-01T10:00:00Z' },
+        { role: 'assistant', content: 'Hi there', date: '2026-10-01T10:00:05Z' },
+      ]);
+    });
+
+    it('unwraps user message envelopes and drops system events', () => {
+      const history = parseHistoryMessages([
+        { message_type: 'user_message', content: '{"type": "login", "last_login": "never"}' },
+        { message_type: 'user_message', content: '{"type": "user_message", "message": "Wrapped", "time": "now"}' },
+        { message_type: 'user_message', content: '{not json' },
+      ]);
+      expect(history.map(m => m.content)).toEqual(['Wrapped', '{not json']);
+    });
+
+    it('puts newest-first lists in reading order', () => {
+      const history = parseHistoryMessages([
+        { message_type: 'assistant_message', content: 'Second', date: '2026-10-01T10:00:05Z' },
+        { message_type: 'user_message', content: 'First', date: '2026-10-01T10:00:00Z' },
+      ]);
+      expect(history.map(m => m.content)).toEqual(['First', 'Second']);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { AgentProfile, findAgent, isInFolder, resolveAgentId } from '../src/agentRouting';
+
+function agent(id: string, folders: string[]): AgentProfile {
+  return { id, name: id, role: 'analyst', model: 'letta/letta-free', folders };
+}
+
+describe('isInFolder', () => {
+  it('treats the root as containing everything', () => {
+    expect(isInFolder('Journal/today.md', '')).toBe(true);
+    expect(isInFolder('today.md', '/')).toBe(true);
+  });
+
+  it('matches whole folder names only', () => {
+    expect(isInFolder('Work/plan.md', 'Work')).toBe(true);
+    expect(isInFolder('Workouts/legs.md', 'Work')).toBe(false);
+  });
+});
+
+describe('resolveAgentId', () => {
+  const agents = [agent('analyst', ['Work']), agent('coach', ['Work/Reviews']), agent('unused', [])];
+
+  it('falls back to the default agent', () => {
+    expect(resolveAgentId('Journal/today.md', { defaultAgentId: 'main', agents, noteAgents: {} })).toBe('main');
+  });
+
+  it('picks the agent with the most specific folder', () => {
+    const options = { defaultAgentId: 'main', agents, noteAgents: {} };
+    expect(resolveAgentId('Work/plan.md', options)).toBe('analyst');
+    expect(resolveAgentId('Work/Reviews/q1.md', options)).toBe('coach');
+  });
+
+  it('lets a per-note choice override folders', () => {
+    const options = { defaultAgentId: 'main', agents, noteAgents: { 'Work/plan.md': 'main', 'today.md': 'unused' } };
+    expect(resolveAgentId('Work/plan.md', options)).toBe('main');
+    expect(resolveAgentId('today.md', options)).toBe('unused');
+  });
+
+  it('ignores per-note choices for agents that were removed', () => {
+    const options = { defaultAgentId: 'main', agents, noteAgents: { 'Work/plan.md': 'gone' } };
+    expect(resolveAgentId('Work/plan.md', options)).toBe('analyst');
+  });
+});
+
+describe('findAgent', () => {
+  const agents = [{ ...agent('agent-2', []), name: 'Work Coach' }];
+  const main = { id: 'agent-1', name: 'Therapist' };
+
+  it('matches ids and names regardless of case', () => {
+    expect(findAgent('agent-2', main, agents)).toBe('agent-2');
+    expect(findAgent('work coach', main, agents)).toBe('agent-2');
+    expect(findAgent('Therapist', main, agents)).toBe('agent-1');
+  });
+
+  it('returns null for agents that do not exist', () => {
+    expect(findAgent('Nobody', main, agents)).toBeNull();
+    expect(findAgent(' ', main, agents)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { chatPrompt, stripPromptHeaders, toChatEntries } from '../src/chatHistory';
+import { withNotePersona } from '../src/noteOverrides';
+
+describe('chatHistory', () => {
+  describe('stripPromptHeaders', () => {
+    it('leaves plain text alone', () => {
+      expect(stripPromptHeaders('Just a message')).toEqual({ text: 'Just a message', fromNote: false, internal: false });
+    });
+
+    it('removes the chat header', () => {
+      expect(stripPromptHeaders(chatPrompt('  How are you?  '))).toEqual({ text: 'How are you?', fromNote: false, internal: false });
+    });
+
+    it('removes observer and conversation headers and marks them as from a note', () => {
+      const observed = '[OBSERVER MODE - Only respond if... respond with just: [listening]]\n\nToday was long.';
+      expect(stripPromptHeaders(observed)).toEqual({ text: 'Today was long.', fromNote: true, internal: false });
+
+      const conversation = '[CONVERSATION MODE - The user wants to talk.]\n\nWhat do you think?';
+      expect(stripPromptHeaders(conversation)).toEqual({ text: 'What do you think?', fromNote: true, internal: false });
+    });
+
+    it('marks the plugin\'s own requests as internal', () => {
+      expect(stripPromptHeaders('[JOURNAL SESSION - Write an opening prompt.]')).toEqual({ text: '', fromNote: false, internal: true });
+      expect(stripPromptHeaders('[MOOD CHECK - Rate it.]\n\nA hard day.').internal).toBe(true);
+    });
+
+    it('removes a note persona and the offline header in front of it', () => {
+      const persona = withNotePersona('[CONVERSATION MODE - Talk.]\n\nHelp me plan.', 'Be brief.\nUse lists.');
+      const queued = `[Written 10/1/2026, 9:00:00 AM in "Daily.md" while you were offline]\n\n${persona}`;
+      expect(stripPromptHeaders(queued)).toEqual({ text: 'Help me plan.', fromNote: true, internal: false });
+    });
+  });
+
+  describe('toChatEntries', () => {
+    it('turns history into entries with timestamps', () => {
+      const entries = toChatEntries([
+        { role: 'user', content: chatPrompt('Hi'), date: '2026-10-01T10:00:00Z' },
+        { role: 'assistant', content: 'Hello!', date: 'not a date' },
+      ]);
+      expect(entries).toEqual([
+        { role: 'user', text: 'Hi', timestamp: Date.parse('2026-10-01T10:00:00Z'), fromNote: false },
+        { role: 'assistant', text: 'Hello!', timestamp: null, fromNote: false },
+      ]);
+    });
+
+    it('drops observations the agent only listened to', () => {
+      const entries = toChatEntries([
+        { role: 'user', content: '[OBSERVER MODE - Watch.]\n\nA paragraph.' },
+        { role: 'assistant', content: '[listening]' },
+        { role: 'user', content: 'Are you there?' },
+        { role: 'assistant', content: 'Yes.' },
+      ]);
+      expect(entries.map(e => e.text)).toEqual(['Are you there?', 'Yes.']);
+    });
+
+    it('hides the plugin\'s own requests and their answers', () => {
+      const entries = toChatEntries([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi.' },
+        { role: 'user', content: '[MOOD CHECK - Rate it.]\n\nA hard day.' },
+        { role: 'assistant', content: '{"valence": -0.5, "energy": 0.2, "emotions": []}' },
+      ]);
+      expect(entries.map(e => e.text)).toEqual(['Hello', 'Hi.']);
+    });
+
+    it('joins a reply sent as several messages', () => {
+      const entries = toChatEntries([
+        { role: 'user', content: 'Question' },
+        { role: 'assistant', content: 'Part one.' },
+        { role: 'assistant', content: 'Part two.' },
+      ]);
+      expect(entries).toHaveLength(2);
+      expect(entries[1].text).toBe('Part one.\n\nPart two.');
+    });
+  });
+});
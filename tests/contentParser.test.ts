@@ -3,6 +3,7 @@ import {
   getNewContent,
   isTherapistResponse,
   formatResponse,
+  journalSectionEnd,
   THERAPIST_PREFIX
 } from '../src/contentParser';
 
@@ -115,4 +116,29 @@ Then I felt better.`;
       expect(THERAPIST_PREFIX).toBe('> **Therapist:**');
     });
   });
+
+  describe('journalSectionEnd', () => {
+    it('returns null without a journal section', () => {
+      expect(journalSectionEnd('# Today\n\nNothing here')).toBeNull();
+    });
+
+    it('ends after the last line of the section', () => {
+      const content = '# 2026-10-19\n\n## Journal\nFirst thought.\n\n\n## Tasks\n- [ ] Call mum';
+      expect(content.slice(0, journalSectionEnd(content)!)).toBe('# 2026-10-19\n\n## Journal\nFirst thought.');
+    });
+
+    it('runs to the end of the note and past deeper headers', () => {
+      const content = '## Journal\n\n### Morning\nSlept well.\n\n';
+      expect(journalSectionEnd(content)).toBe(content.trimEnd().length);
+    });
+
+    it('handles an indented Journal header', () => {
+      const content = '# Day\n  ## Journal\ntext';
+      expect(journalSectionEnd(content)).toBe(content.length);
+    });
+
+    it('ends at the header itself when the section is empty', () => {
+      expect(journalSectionEnd('## Journal\n\n## Later')).toBe('## Journal'.length);
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { dailyNoteName, dailyNoteOptions, dailyNotePath, fillDailyTemplate, journalInsertion } from '../src/dailyNote';
+
+describe('dailyNote', () => {
+  describe('dailyNoteOptions', () => {
+    it('falls back to the Daily Notes defaults', () => {
+      expect(dailyNoteOptions(undefined)).toEqual({ folder: '', format: 'YYYY-MM-DD', template: '' });
+      expect(dailyNoteOptions({ format: '  ' })).toEqual({ folder: '', format: 'YYYY-MM-DD', template: '' });
+    });
+
+    it('keeps configured values without stray slashes', () => {
+      expect(dailyNoteOptions({ folder: '/Journal/Daily/', format: 'YYYY/MM/DD', template: 'Templates/Day' }))
+        .toEqual({ folder: 'Journal/Daily', format: 'YYYY/MM/DD', template: 'Templates/Day' });
+    });
+  });
+
+  describe('dailyNotePath', () => {
+    it('puts the note in the folder', () => {
+      expect(dailyNotePath(dailyNoteOptions({ folder: 'Daily' }), '2026-10-19')).toBe('Daily/2026-10-19.md');
+      expect(dailyNotePath(dailyNoteOptions({}), '2026/10/19')).toBe('2026/10/19.md');
+    });
+  });
+
+  describe('dailyNoteName', () => {
+    it('is the path inside the folder without the extension', () => {
+      const options = dailyNoteOptions({ folder: 'Daily', format: 'YYYY/MM/DD' });
+      expect(dailyNoteName(options, 'Daily/2026/10/19.md')).toBe('2026/10/19');
+      expect(dailyNoteName(options, 'Projects/Plan.md')).toBeNull();
+      expect(dailyNoteName(dailyNoteOptions({}), 'Anything.md')).toBe('Anything');
+    });
+  });
+
+  describe('fillDailyTemplate', () => {
+    const formatDate = (format: string) => `<${format}>`;
+
+    it('replaces date, time and title placeholders', () => {
+      expect(fillDailyTemplate('# {{title}}\n{{date}} {{time}}', '2026-10-19', formatDate))
+        .toBe('# 2026-10-19\n<YYYY-MM-DD> <HH:mm>');
+    });
+
+    it('uses custom formats', () => {
+      expect(fillDailyTemplate('{{date:dddd}} at {{ time : h:mm a }}', 'x', formatDate)).toBe('<dddd> at <h:mm a>');
+    });
+  });
+
+  describe('journalInsertion', () => {
+    it('starts a section in an empty note', () => {
+      expect(journalInsertion('')).toEqual({ offset: 0, text: '## Journal' });
+    });
+
+    it('adds a section after existing content', () => {
+      expect(journalInsertion('# Today\n\n- [ ] Tasks\n\n')).toEqual({ offset: 20, text: '\n\n## Journal' });
+    });
+
+    it('continues an existing journal section', () => {
+      const content = '## Journal\nMorning entry.\n\n## Tasks';
+      expect(journalInsertion(content)).toEqual({ offset: '## Journal\nMorning entry.'.length, text: '' });
+    });
+  });
+});
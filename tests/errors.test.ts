@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  LettaError,
+  LettaAuthError,
+  LettaNotFoundError,
+  LettaRateLimitError,
+  LettaServerError,
+  LettaNetworkError,
+  LettaTimeoutError,
+  LettaUnsupportedError,
+  errorFromResponse,
+  resourceFromPath,
+  isRetryable,
+  backoffDelay,
+  withTimeout,
+  isSafeToResend,
+  describeError,
+} from '../src/errors';
+
+describe('errors', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('errorFromResponse', () => {
+    it('maps 401 and 403 to auth errors', () => {
+      expect(errorFromResponse(401, '', 'list models')).toBeInstanceOf(LettaAuthError);
+      expect(errorFromResponse(403, '', 'list models')).toBeInstanceOf(LettaAuthError);
+    });
+
+    it('maps 404 to not-found with the resource from the path', () => {
+      const error = errorFromResponse(404, 'Agent not found', 'send message', '/v1/agents/agent-1/messages');
+
+      expect(error).toBeInstanceOf(LettaNotFoundError);
+      expect(error.resource).toBe('agent');
+      expect(error.status).toBe(404);
+      expect(error.message).toBe('Failed to send message: Agent not found');
+    });
+
+    it('maps 429 to rate-limit and reads Retry-After seconds', () => {
+      const error = errorFromResponse(429, '', 'send message', '', '3');
+
+      expect(error).toBeInstanceOf(LettaRateLimitError);
+      expect((error as LettaRateLimitError).retryAfterMs).toBe(3000);
+    });
+
+    it('maps 5xx to server errors', () => {
+      expect(errorFromResponse(502, '', 'list archives')).toBeInstanceOf(LettaServerError);
+    });
+
+    it('falls back to a plain LettaError with the status in the message', () => {
+      const error = errorFromResponse(422, '', 'create agent');
+
+      expect(error).toBeInstanceOf(LettaError);
+      expect(error).not.toBeInstanceOf(LettaServerError);
+      expect(error.message).toBe('Failed to create agent: HTTP 422');
+    });
+  });
+
+  describe('resourceFromPath', () => {
+    it('recognises the resource each endpoint refers to', () => {
+      expect(resourceFromPath('/v1/agents/a-1')).toBe('agent');
+      expect(resourceFromPath('/v1/agents/a-1/archival-memory?limit=10')).toBe('agent');
+      expect(resourceFromPath('/v1/agents/a-1/core-memory/blocks/persona')).toBe('block');
+      expect(resourceFromPath('/v1/archives/ar-1/passages/')).toBe('archive');
+      expect(resourceFromPath('/v1/providers/')).toBe('provider');
+      expect(resourceFromPath('/v1/agents/')).toBe('server');
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('retries transient failures only', () => {
+      expect(isRetryable(new LettaRateLimitError('x'))).toBe(true);
+      expect(isRetryable(new LettaServerError('x', 500))).toBe(true);
+      expect(isRetryable(new LettaNetworkError('x'))).toBe(true);
+      expect(isRetryable(new LettaTimeoutError('x', 1000))).toBe(true);
+      expect(isRetryable(new LettaAuthError('x', 401))).toBe(false);
+      expect(isRetryable(new LettaNotFoundError('x', 404))).toBe(false);
+      expect(isRetryable(new Error('x'))).toBe(false);
+    });
+  });
+
+  describe('isSafeToResend', () => {
+    it('resends transient failures except timeouts', () => {
+      expect(isSafeToResend(new LettaNetworkError('x'))).toBe(true);
+      expect(isSafeToResend(new LettaServerError('x', 503))).toBe(true);
+      expect(isSafeToResend(new LettaTimeoutError('x', 1000))).toBe(false);
+      expect(isSafeToResend(new LettaAuthError('x', 401))).toBe(false);
+    });
+  });
+
+  describe('backoffDelay', () => {
+    it('grows exponentially up to the cap', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(backoffDelay(0, 500, 8000)).toBe(500);
+      expect(backoffDelay(2, 500, 8000)).toBe(2000);
+      expect(backoffDelay(10, 500, 8000)).toBe(8000);
+    });
+
+    it('prefers the server-provided retry delay', () => {
+      expect(backoffDelay(0, 500, 8000, 3000)).toBe(3000);
+      expect(backoffDelay(0, 500, 8000, 60000)).toBe(8000);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('rejects with the timeout error when the promise is too slow', async () => {
+      vi.useFakeTimers();
+      const pending = withTimeout(new Promise(() => {}), 1000, () => new LettaTimeoutError('slow', 1000));
+
+      vi.advanceTimersByTime(1000);
+
+      await expect(pending).rejects.toBeInstanceOf(LettaTimeoutError);
+    });
+
+    it('resolves when the promise settles in time', async () => {
+      await expect(withTimeout(Promise.resolve('ok'), 1000, () => new Error('slow'))).resolves.toBe('ok');
+    });
+  });
+
+  describe('describeError', () => {
+    it('suggests reconnecting when the agent is gone', () => {
+      const error = new LettaNotFoundError('x', 404, 'agent');
+
+      expect(describeError(error)).toContain('Agent no longer exists on server — reconnect?');
+    });
+
+    it('passes through the message for unsupported features', () => {
+      const error = new LettaUnsupportedError('Using vault archives needs a newer Letta server', 'archives', 'archive');
+
+      expect(describeError(error)).toBe('Using vault archives needs a newer Letta server');
+      expect(isRetryable(error)).toBe(false);
+    });
+
+    it('points at the API key for auth failures', () => {
+      expect(describeError(new LettaAuthError('x', 401))).toContain('API key');
+    });
+
+    it('distinguishes timeouts from other network failures', () => {
+      expect(describeError(new LettaTimeoutError('x', 30000))).toContain('30s');
+      expect(describeError(new LettaNetworkError('x'))).toContain('is it running?');
+      // The local backend reports its failures with the same types
+      expect(describeError(new LettaNetworkError('x'))).not.toContain('Letta');
+      expect(describeError(new LettaAuthError('x', 401))).not.toContain('Letta');
+    });
+
+    it('falls back to the message of plain errors', () => {
+      expect(describeError(new Error('boom'))).toBe('boom');
+      expect(describeError('what')).toBe('Unknown error');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Insight } from '../src/insights';
+import {
+  FEEDBACK_SYNC_AFTER,
+  FEEDBACK_SYNC_INTERVAL_MS,
+  feedbackTotals,
+  shouldSyncFeedback,
+  summarizeFeedback,
+} from '../src/feedback';
+
+function insight(text: string, rating?: { helpful: boolean; comment?: string; timestamp: number }): Insight {
+  return {
+    id: text,
+    notePath: 'a.md',
+    agentId: 'agent-1',
+    text,
+    reasoning: [],
+    toolCalls: [],
+    trigger: '',
+    timestamp: 0,
+    status: 'pending',
+    pinned: false,
+    archived: false,
+    rating: rating ? { comment: '', ...rating } : undefined,
+  };
+}
+
+describe('feedback', () => {
+  it('counts helpful and unhelpful ratings', () => {
+    const insights = [
+      insight('a', { helpful: true, timestamp: 1 }),
+      insight('b', { helpful: false, timestamp: 2 }),
+      insight('c', { helpful: true, timestamp: 3 }),
+      insight('d'),
+    ];
+    expect(feedbackTotals(insights)).toEqual({ helpful: 2, notHelpful: 1 });
+  });
+
+  describe('shouldSyncFeedback', () => {
+    it('waits until enough new ratings have built up', () => {
+      const few = [insight('a', { helpful: true, timestamp: 100 })];
+      expect(shouldSyncFeedback(few, 50, 200)).toBe(false);
+
+      const many = Array.from({ length: FEEDBACK_SYNC_AFTER }, (_, i) => insight(`i${i}`, { helpful: true, timestamp: 100 + i }));
+      expect(shouldSyncFeedback(many, 50, 200)).toBe(true);
+    });
+
+    it('syncs a single new rating once the last sync is old', () => {
+      const insights = [insight('a', { helpful: false, timestamp: 100 })];
+      expect(shouldSyncFeedback(insights, 50, 50 + FEEDBACK_SYNC_INTERVAL_MS)).toBe(true);
+    });
+
+    it('never syncs when nothing new was rated', () => {
+      const insights = [insight('a', { helpful: true, timestamp: 10 }), insight('b')];
+      expect(shouldSyncFeedback(insights, 50, 50 + FEEDBACK_SYNC_INTERVAL_MS * 2)).toBe(false);
+    });
+  });
+
+  describe('summarizeFeedback', () => {
+    it('returns null without ratings', () => {
+      expect(summarizeFeedback([insight('a')])).toBeNull();
+    });
+
+    it('lists recent examples of each kind with comments', () => {
+      const summary = summarizeFeedback([
+        insight('You keep mentioning Sunday evenings.', { helpful: true, comment: 'spot on', timestamp: 2 }),
+        insight('Have you tried meditation?', { helpful: false, comment: 'too generic', timestamp: 3 }),
+      ])!;
+
+      expect(summary).toContain('rated 2 of your observations: 1 helpful, 1 not helpful');
+      expect(summary).toContain('- "You keep mentioning Sunday evenings." (user: spot on)');
+      expect(summary).toContain('- "Have you tried meditation?" (user: too generic)');
+      expect(summary).toContain('[listening]');
+    });
+
+    it('shortens long insights', () => {
+      const summary = summarizeFeedback([insight('word '.repeat(100), { helpful: true, timestamp: 1 })])!;
+      expect(summary).toContain('…"');
+      expect(summary.length).toBeLessThan(600);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { findParagraph, mapAnchor, paragraphEnd, resolveAnchor } from '../src/insightAnchor';
+
+const note = 'Morning was fine.\n\nThe meeting went badly again.\n\nEvening walk.';
+
+describe('insightAnchor', () => {
+  describe('findParagraph', () => {
+    it('finds the paragraph and its offsets', () => {
+      const anchor = findParagraph(note, 'The meeting went badly again.');
+      expect(anchor).toEqual({ from: 19, to: 48, text: 'The meeting went badly again.' });
+      expect(note.slice(anchor!.from, anchor!.to)).toBe('The meeting went badly again.');
+    });
+
+    it('prefers the occurrence nearest the given position', () => {
+      const repeated = 'Same.\n\nOther.\n\nSame.';
+      expect(findParagraph(repeated, 'Same.', 0)!.from).toBe(0);
+      expect(findParagraph(repeated, 'Same.', 20)!.from).toBe(15);
+    });
+
+    it('returns null when the paragraph is not there', () => {
+      expect(findParagraph(note, 'Never written')).toBeNull();
+      expect(findParagraph(note, '  ')).toBeNull();
+    });
+  });
+
+  describe('paragraphEnd', () => {
+    it('finds the end of the paragraph around a position', () => {
+      expect(paragraphEnd(note, 0)).toBe(17);
+      expect(paragraphEnd(note, 25)).toBe(48);
+      expect(paragraphEnd(note, note.length)).toBe(note.length);
+    });
+
+    it('steps back to the previous paragraph from a blank line', () => {
+      expect(paragraphEnd(note, 18)).toBe(17);
+    });
+  });
+
+  describe('mapAnchor', () => {
+    it('moves the anchor with text typed before it', () => {
+      const anchor = findParagraph(note, 'The meeting went badly again.')!;
+      // 10 characters inserted at the start of the note
+      const mapped = mapAnchor(anchor, (pos) => pos + 10);
+      expect(mapped).toEqual({ from: 29, to: 58, text: anchor.text });
+    });
+  });
+
+  describe('resolveAnchor', () => {
+    const anchor = findParagraph(note, 'The meeting went badly again.')!;
+
+    it('inserts after the anchored paragraph', () => {
+      expect(resolveAnchor(note, anchor)).toBe(48);
+    });
+
+    it('finds the paragraph again when the offsets are stale', () => {
+      const edited = 'New first line.\n\n' + note;
+      expect(resolveAnchor(edited, anchor)).toBe(48 + 17);
+    });
+
+    it('uses the paragraph at the anchored spot after it was rewritten', () => {
+      const rewritten = note.replace('went badly again', 'went badly, but I spoke up');
+      const mapped = { ...anchor, to: anchor.to + 10 };
+      expect(resolveAnchor(rewritten, mapped)).toBe(rewritten.indexOf('\n\nEvening'));
+    });
+
+    it('gives up when the paragraph is gone', () => {
+      expect(resolveAnchor('Short.', anchor)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Insight, InsightStore, groupInsights, searchInsights } from '../src/insights';
+
+const response = (text: string) => ({ text, reasoning: [], toolCalls: [] });
+
+describe('InsightStore', () => {
+  it('keeps insights per note in the caller-owned record and saves', async () => {
+    const record: Record<string, Insight[]> = {};
+    const save = vi.fn().mockResolvedValue(undefined);
+    const store = new InsightStore(record, save);
+
+    await store.add('a.md', 'agent-1', response('Notice the pattern'), 'I always do this', undefined, 1000);
+    await store.add('b.md', 'agent-1', response('Another thought'), 'Something else', 2000);
+
+    expect(store.pending('a.md')).toHaveLength(1);
+    expect(record['a.md'][0]).toMatchObject({
+      notePath: 'a.md',
+      agentId: 'agent-1',
+      text: 'Notice the pattern',
+      trigger: 'I always do this',
+      timestamp: 1000,
+    });
+    expect(store.pending('c.md')).toEqual([]);
+    expect(save).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep token usage', async () => {
+    const record: Record<string, Insight[]> = {};
+    const store = new InsightStore(record, async () => {});
+    await store.add('a.md', 'agent-1', { ...response('Hi'), usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } }, '');
+
+    expect('usage' in record['a.md'][0]).toBe(false);
+  });
+
+  it('keeps dismissed and inserted insights in the history', async () => {
+    const record: Record<string, Insight[]> = {};
+    const store = new InsightStore(record, async () => {});
+    await store.add('a.md', 'agent-1', response('One'), '');
+    const inserted = await store.add('a.md', 'agent-1', response('Two'), '');
+    await store.add('b.md', 'agent-1', response('Three'), '');
+
+    await store.markInserted([inserted]);
+    await store.dismiss('a.md');
+
+    expect(store.pending('a.md')).toEqual([]);
+    expect(store.pending('b.md')).toHaveLength(1);
+    expect(store.all().map(i => i.status).sort()).toEqual(['dismissed', 'inserted', 'pending']);
+  });
+
+  it('dismisses a single insight', async () => {
+    const store = new InsightStore({}, async () => {});
+    const first = await store.add('a.md', 'agent-1', response('One'), '');
+    await store.add('a.md', 'agent-1', response('Two'), '');
+
+    await store.markDismissed([first]);
+
+    expect(store.pending('a.md').map(i => i.text)).toEqual(['Two']);
+  });
+
+  it('hides archived insights from the orb', async () => {
+    const store = new InsightStore({}, async () => {});
+    const insight = await store.add('a.md', 'agent-1', response('One'), '');
+
+    await store.setArchived(insight, true);
+
+    expect(store.pending('a.md')).toEqual([]);
+    expect(store.all()).toHaveLength(1);
+  });
+
+  it('records a rating with its comment', async () => {
+    const store = new InsightStore({}, async () => {});
+    const insight = await store.add('a.md', 'agent-1', response('One'), '');
+
+    await store.rate(insight, false, 'too generic', 5000);
+
+    expect(store.all()[0].rating).toEqual({ helpful: false, comment: 'too generic', timestamp: 5000 });
+  });
+
+  it('moves the anchors of pending insights with an edit', async () => {
+    const store = new InsightStore({}, async () => {});
+    const insight = await store.add('a.md', 'agent-1', response('One'), '', { from: 10, to: 20, text: 'Paragraph.' });
+    await store.add('a.md', 'agent-1', response('Two'), '');
+
+    expect(store.mapAnchors('a.md', pos => pos + 5)).toBe(true);
+    expect(insight.anchor).toMatchObject({ from: 15, to: 25 });
+    expect(store.mapAnchors('b.md', pos => pos + 5)).toBe(false);
+  });
+
+  it('drops the oldest unpinned insights across notes once the history is full', async () => {
+    const store = new InsightStore({}, async () => {});
+    const pinned = await store.add('old.md', 'agent-1', response('Keep'), '', undefined, 1);
+    await store.setPinned(pinned, true);
+    await store.add('old.md', 'agent-1', response('Oldest'), '', undefined, 2);
+    for (let i = 0; i < 1999; i++) {
+      await store.add(`note-${i % 4}.md`, 'agent-1', response(`Insight ${i}`), '', undefined, 10 + i);
+    }
+
+    const texts = store.all().map(i => i.text);
+    expect(texts).toHaveLength(2000);
+    expect(texts).toContain('Keep');
+    expect(texts).not.toContain('Oldest');
+    expect(texts).toContain('Insight 0');
+  });
+
+  it('keeps reasoning and tool calls only while an insight is pending', async () => {
+    const store = new InsightStore({}, async () => {});
+    const insight = await store.add('a.md', 'agent-1', {
+      text: 'Hi',
+      reasoning: ['Thinking'],
+      toolCalls: [{ id: 't1', name: 'archival_memory_search', arguments: '{}', status: 'success' }],
+    }, '');
+    expect(insight.reasoning).toEqual(['Thinking']);
+
+    await store.dismiss('a.md');
+
+    expect(insight.reasoning).toEqual([]);
+    expect(insight.toolCalls).toEqual([]);
+  });
+
+  it('treats insights saved without a status as pending', () => {
+    const old = { id: 'x', notePath: 'a.md', agentId: 'agent-1', text: 'Hi', reasoning: [], toolCalls: [], trigger: '', timestamp: 1 };
+    const store = new InsightStore({ 'a.md': [old as Insight] }, async () => {});
+
+    expect(store.pending('a.md')).toHaveLength(1);
+    expect(store.pending('a.md')[0]).toMatchObject({ pinned: false, archived: false });
+  });
+
+  it('follows renamed notes and folders', async () => {
+    const record: Record<string, Insight[]> = {};
+    const store = new InsightStore(record, async () => {});
+    await store.add('Journal/a.md', 'agent-1', response('One'), '');
+    await store.add('Journal/Old/b.md', 'agent-1', response('Two'), '');
+    await store.add('Journaling.md', 'agent-1', response('Three'), '');
+
+    await store.rename('Journal/a.md', 'Journal/c.md');
+    await store.rename('Journal', 'Diary');
+
+    expect(Object.keys(record).sort()).toEqual(['Diary/Old/b.md', 'Diary/c.md', 'Journaling.md']);
+    expect(store.pending('Diary/c.md')[0].notePath).toBe('Diary/c.md');
+  });
+
+  it('drops insights of deleted notes and folders', async () => {
+    const record: Record<string, Insight[]> = {};
+    const store = new InsightStore(record, async () => {});
+    await store.add('Journal/a.md', 'agent-1', response('One'), '');
+    await store.add('Other.md', 'agent-1', response('Two'), '');
+
+    await store.remove('Journal');
+
+    expect(Object.keys(record)).toEqual(['Other.md']);
+  });
+});
+
+describe('searchInsights', () => {
+  it('matches every word against the text, trigger and note', async () => {
+    const store = new InsightStore({}, async () => {});
+    await store.add('Journal/work.md', 'agent-1', response('You sound tired of meetings'), 'Another long day');
+    await store.add('Journal/home.md', 'agent-1', response('That sounds restful'), 'Quiet weekend');
+
+    expect(searchInsights(store.all(), 'TIRED work').map(i => i.notePath)).toEqual(['Journal/work.md']);
+    expect(searchInsights(store.all(), 'weekend').map(i => i.notePath)).toEqual(['Journal/home.md']);
+    expect(searchInsights(store.all(), '  ')).toHaveLength(2);
+  });
+});
+
+describe('groupInsights', () => {
+  it('groups by note and day, newest first', async () => {
+    const store = new InsightStore({}, async () => {});
+    const day1 = new Date(2026, 0, 1, 9).getTime();
+    const day2 = new Date(2026, 0, 2, 9).getTime();
+    await store.add('a.md', 'agent-1', response('Old'), '', undefined, day1);
+    await store.add('b.md', 'agent-1', response('Middle'), '', undefined, day1 + 1000);
+    await store.add('a.md', 'agent-1', response('New'), '', undefined, day2);
+    await store.add('a.md', 'agent-1', response('Newer'), '', undefined, day2 + 1000);
+
+    const groups = groupInsights(store.all());
+
+    expect(groups.map(g => g.notePath)).toEqual(['a.md', 'b.md']);
+    expect(groups[0].days.map(d => d.day)).toEqual(['2026-01-02', '2026-01-01']);
+    expect(groups[0].days[0].insights.map(i => i.text)).toEqual(['Newer', 'New']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildSystemPrompt, extractRememberLines, rankByKeywords } from '../src/localMemory';
+
+describe('localMemory', () => {
+  describe('buildSystemPrompt', () => {
+    it('wraps each memory block in its label', () => {
+      const prompt = buildSystemPrompt([
+        { id: 'persona', label: 'persona', value: 'You are a coach.' },
+        { id: 'human', label: 'human', value: 'Likes running.' },
+      ], []);
+
+      expect(prompt).toContain('<persona>\nYou are a coach.\n</persona>');
+      expect(prompt).toContain('<human>\nLikes running.\n</human>');
+      expect(prompt).not.toContain('<recalled_memories>');
+    });
+
+    it('includes recalled memories when present', () => {
+      const prompt = buildSystemPrompt([], ['Sleeps badly on Sundays']);
+
+      expect(prompt).toContain('<recalled_memories>\n- Sleeps badly on Sundays\n</recalled_memories>');
+    });
+  });
+
+  describe('extractRememberLines', () => {
+    it('separates remember lines from the visible reply', () => {
+      const result = extractRememberLines('Try a walk tomorrow.\n[remember] Walks help their mood');
+
+      expect(result.text).toBe('Try a walk tomorrow.');
+      expect(result.memories).toEqual(['Walks help their mood']);
+    });
+
+    it('returns the reply unchanged when nothing is remembered', () => {
+      const result = extractRememberLines('[listening]');
+
+      expect(result.text).toBe('[listening]');
+      expect(result.memories).toEqual([]);
+    });
+
+    it('ignores empty remember lines', () => {
+      expect(extractRememberLines('Hi\n[remember]').memories).toEqual([]);
+    });
+  });
+
+  describe('rankByKeywords', () => {
+    it('orders texts by shared words and drops unrelated ones', () => {
+      const texts = [
+        'Went grocery shopping',
+        'Work stress before the deadline',
+        'Deadline stress again, work is heavy',
+      ];
+
+      const ranked = rankByKeywords('stress about work deadline', texts, 5);
+
+      expect(ranked).toEqual([
+        'Work stress before the deadline',
+        'Deadline stress again, work is heavy',
+      ]);
+    });
+
+    it('respects the limit', () => {
+      const ranked = rankByKeywords('sleep', ['sleep well', 'sleep badly', 'sleep late'], 2);
+
+      expect(ranked).toHaveLength(2);
+    });
+
+    it('returns nothing for queries made only of short words', () => {
+      expect(rankByKeywords('a an', ['anything'], 3)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MOOD_CHECK_HEADER,
+  MoodPoint,
+  chartPoints,
+  countEmotions,
+  moodFromFrontmatter,
+  moodPrompt,
+  parseMoodReading,
+  writeMoodFrontmatter,
+} from '../src/mood';
+
+function point(day: string, valence: number, energy: number, emotions: string[] = []): MoodPoint {
+  return { path: `Daily/${day}.md`, day, valence, energy, emotions };
+}
+
+describe('mood', () => {
+  describe('moodPrompt', () => {
+    it('puts the entry after the instructions', () => {
+      expect(moodPrompt('  Tired but hopeful.  ')).toBe(`${MOOD_CHECK_HEADER}\n\nTired but hopeful.`);
+    });
+  });
+
+  describe('parseMoodReading', () => {
+    it('reads plain JSON', () => {
+      expect(parseMoodReading('{"valence": -0.4, "energy": 0.3, "emotions": ["Anxious", "tired"]}'))
+        .toEqual({ valence: -0.4, energy: 0.3, emotions: ['anxious', 'tired'] });
+    });
+
+    it('finds JSON inside prose and code fences', () => {
+      const reply = 'Here is the reading:\n```json\n{"valence": "0.5", "energy": 0.8, "emotions": "calm, grateful"}\n```';
+      expect(parseMoodReading(reply)).toEqual({ valence: 0.5, energy: 0.8, emotions: ['calm', 'grateful'] });
+    });
+
+    it('clamps, rounds and limits the emotions', () => {
+      expect(parseMoodReading('{"valence": -3, "energy": 0.6666, "emotions": ["a", "b", "a", "c", "d"]}'))
+        .toEqual({ valence: -1, energy: 0.67, emotions: ['a', 'b', 'c'] });
+    });
+
+    it('returns null without a usable reading', () => {
+      expect(parseMoodReading('[listening]')).toBeNull();
+      expect(parseMoodReading('{"valence": "unsure"}')).toBeNull();
+      expect(parseMoodReading('{not json}')).toBeNull();
+    });
+  });
+
+  describe('frontmatter', () => {
+    it('writes and reads back a reading', () => {
+      const frontmatter: Record<string, unknown> = { tags: ['journal'] };
+      writeMoodFrontmatter(frontmatter, { valence: 0.2, energy: 0.4, emotions: ['content'] });
+      expect(frontmatter).toEqual({
+        tags: ['journal'],
+        'mood-valence': 0.2,
+        'mood-energy': 0.4,
+        'mood-emotions': ['content'],
+      });
+      expect(moodFromFrontmatter(frontmatter)).toEqual({ valence: 0.2, energy: 0.4, emotions: ['content'] });
+    });
+
+    it('ignores notes without a reading', () => {
+      expect(moodFromFrontmatter(undefined)).toBeNull();
+      expect(moodFromFrontmatter({ 'mood-valence': 0.5 })).toBeNull();
+    });
+  });
+
+  describe('countEmotions', () => {
+    it('counts emotions across entries, most frequent first', () => {
+      const counts = countEmotions([
+        point('2026-10-01', 0, 0.5, ['tired', 'anxious']),
+        point('2026-10-02', 0, 0.5, ['tired']),
+        point('2026-10-03', 0, 0.5, ['calm']),
+      ]);
+      expect(counts).toEqual([
+        { emotion: 'tired', count: 2 },
+        { emotion: 'anxious', count: 1 },
+        { emotion: 'calm', count: 1 },
+      ]);
+    });
+  });
+
+  describe('chartPoints', () => {
+    it('spreads points over the days and scales each measure to the height', () => {
+      const points = [point('2026-10-11', 1, 0.5), point('2026-10-01', -1, 0), point('2026-10-06', 0, 1)];
+      const valence = chartPoints(points, 100, 50, 'valence');
+      expect(valence.map(p => [p.x, p.y])).toEqual([[0, 50], [50, 25], [100, 0]]);
+
+      const energy = chartPoints(points, 100, 50, 'energy');
+      expect(energy.map(p => p.y)).toEqual([50, 0, 25]);
+      expect(energy[0].point.day).toBe('2026-10-01');
+    });
+
+    it('centres a single day', () => {
+      expect(chartPoints([point('2026-10-01', 0, 0.5)], 100, 50, 'valence')[0]).toMatchObject({ x: 50, y: 25 });
+    });
+  });
+});
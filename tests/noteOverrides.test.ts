@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { hasOverrides, parseNoteOverrides, withNotePersona } from '../src/noteOverrides';
+
+describe('noteOverrides', () => {
+  describe('parseNoteOverrides', () => {
+    it('reads the therapist keys', () => {
+      expect(parseNoteOverrides({
+        therapist: 'converse',
+        'therapist-agent': 'Work Coach',
+        'therapist-persona': 'stoic',
+      })).toEqual({ mode: 'converse', agent: 'Work Coach', persona: 'stoic' });
+    });
+
+    it('accepts YAML booleans and other spellings for the mode', () => {
+      expect(parseNoteOverrides({ therapist: false }).mode).toBe('off');
+      expect(parseNoteOverrides({ therapist: true }).mode).toBe('observe');
+      expect(parseNoteOverrides({ therapist: ' OFF ' }).mode).toBe('off');
+      expect(parseNoteOverrides({ therapist: 'talk' }).mode).toBe('converse');
+    });
+
+    it('unwraps wikilinks to persona notes', () => {
+      expect(parseNoteOverrides({ 'therapist-persona': '[[Gentle CBT|gentle]]' }).persona).toBe('Gentle CBT');
+    });
+
+    it('ignores missing frontmatter and values that make no sense', () => {
+      expect(parseNoteOverrides(undefined)).toEqual({});
+      expect(parseNoteOverrides({ therapist: 'sometimes', 'therapist-agent': 3, tags: ['x'] })).toEqual({});
+      expect(hasOverrides({})).toBe(false);
+      expect(hasOverrides({ persona: 'act' })).toBe(true);
+    });
+  });
+
+  describe('withNotePersona', () => {
+    it('puts the persona before the prompt', () => {
+      const prompt = withNotePersona('[OBSERVER MODE]\n\nHello', 'Be brief.\n');
+      expect(prompt.startsWith('[NOTE PERSONA')).toBe(true);
+      expect(prompt).toContain('Be brief.\n]');
+      expect(prompt.endsWith('[OBSERVER MODE]\n\nHello')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ObservedNotes, diffParagraphs, formatChanges, hashParagraph, splitParagraphs } from '../src/observedContent';
+
+describe('observedContent', () => {
+  describe('splitParagraphs', () => {
+    it('leaves out frontmatter and therapist responses', () => {
+      const note = [
+        '---',
+        'tags: journal',
+        '---',
+        'First thought.',
+        '',
+        '> **Therapist:** What made it hard?',
+        '>',
+        '> Take your time.',
+        '',
+        'Second thought',
+        'on two lines.',
+      ].join('\n');
+
+      expect(splitParagraphs(note)).toEqual(['First thought.', 'Second thought\non two lines.']);
+    });
+  });
+
+  describe('hashParagraph', () => {
+    it('ignores trailing spaces', () => {
+      expect(hashParagraph('Hello  \nworld')).toBe(hashParagraph('Hello\nworld'));
+      expect(hashParagraph('Hello')).not.toBe(hashParagraph('Hello!'));
+    });
+  });
+
+  describe('diffParagraphs', () => {
+    const sent = ['one', 'two', 'three'].map(hashParagraph);
+
+    it('returns nothing when the agent has seen everything', () => {
+      expect(diffParagraphs(['one', 'two', 'three'], sent)).toEqual([]);
+    });
+
+    it('sends paragraphs written at the end as new', () => {
+      expect(diffParagraphs(['one', 'two', 'three', 'four'], sent))
+        .toEqual([{ kind: 'new', text: 'four' }]);
+    });
+
+    it('marks a rewritten earlier paragraph as edited', () => {
+      expect(diffParagraphs(['one', 'two, rewritten', 'three'], sent))
+        .toEqual([{ kind: 'edited', text: 'two, rewritten' }]);
+    });
+
+    it('marks a paragraph added between seen ones as inserted', () => {
+      expect(diffParagraphs(['one', 'one and a half', 'two', 'three'], sent))
+        .toEqual([{ kind: 'inserted', text: 'one and a half' }]);
+    });
+
+    it('treats the last paragraph growing as an edit', () => {
+      expect(diffParagraphs(['one', 'two', 'three and more'], sent))
+        .toEqual([{ kind: 'edited', text: 'three and more' }]);
+    });
+  });
+
+  describe('formatChanges', () => {
+    it('labels only when something earlier changed', () => {
+      expect(formatChanges([{ kind: 'new', text: 'a' }, { kind: 'new', text: 'b' }])).toBe('a\n\nb');
+      expect(formatChanges([{ kind: 'edited', text: 'a' }, { kind: 'new', text: 'b' }]))
+        .toBe('[Edited earlier paragraph]\na\n\nb');
+    });
+  });
+
+  describe('ObservedNotes', () => {
+    it('starts a new note from its last therapist response', () => {
+      const notes = new ObservedNotes({}, async () => {});
+      const note = 'Old entry.\n\n> **Therapist:** Noted.\n\nNew entry.';
+
+      expect(notes.changes('a.md', note)).toEqual([{ kind: 'new', text: 'New entry.' }]);
+    });
+
+    it('only sends what changed since it was marked sent', async () => {
+      const record: Record<string, string[]> = {};
+      const notes = new ObservedNotes(record, async () => {});
+      await notes.markSent('a.md', 'First.\n\nSecond.');
+
+      expect(notes.changes('a.md', 'First.\n\nSecond.')).toEqual([]);
+      expect(notes.changes('a.md', 'First.\n\nSecond.\n\nThird.')).toEqual([{ kind: 'new', text: 'Third.' }]);
+    });
+
+    it('follows renames and forgets deleted notes', async () => {
+      const record: Record<string, string[]> = {};
+      const notes = new ObservedNotes(record, async () => {});
+      await notes.markSent('a.md', 'Text.');
+
+      await notes.rename('a.md', 'b.md');
+      expect(Object.keys(record)).toEqual(['b.md']);
+
+      await notes.remove('b.md');
+      expect(record).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { PERSONA_TEMPLATES, getPersonaTemplate, parsePersonaFile, personaFileName } from '../src/personas';
+
+describe('PERSONA_TEMPLATES', () => {
+  it('includes the therapeutic styles', () => {
+    const ids = PERSONA_TEMPLATES.map(t => t.id);
+    expect(ids).toEqual(['cbt', 'act', 'stoic', 'solution-focused', 'motivational-interviewing']);
+  });
+
+  it('keeps the observer protocol in every template', () => {
+    for (const template of PERSONA_TEMPLATES) {
+      expect(template.persona).toContain('[listening]');
+      expect(template.persona).toContain('[OBSERVER MODE]');
+    }
+  });
+
+  it('looks templates up by id', () => {
+    expect(getPersonaTemplate('stoic')?.name).toBe('Stoic');
+    expect(getPersonaTemplate('freudian')).toBeUndefined();
+  });
+});
+
+describe('parsePersonaFile', () => {
+  it('strips frontmatter', () => {
+    const content = '---\ntags: [persona]\n---\nYou are kind.\n';
+    expect(parsePersonaFile(content)).toBe('You are kind.');
+  });
+
+  it('keeps files without frontmatter as they are', () => {
+    expect(parsePersonaFile('You are kind.\n\n---\nMore.')).toBe('You are kind.\n\n---\nMore.');
+  });
+});
+
+describe('personaFileName', () => {
+  it('removes characters not allowed in file names', () => {
+    expect(personaFileName('CBT: gentle/direct')).toBe('CBT- gentle-direct.md');
+    expect(personaFileName('  ')).toBe('persona.md');
+  });
+});
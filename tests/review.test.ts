@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewPrompt, reviewDue, reviewNoteContent, reviewSince, JournalEntry } from '../src/review';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const entries: JournalEntry[] = [
+  { link: 'Daily/2026-10-18', day: '2026-10-18', text: 'Slept badly again.' },
+  { link: 'Daily/2026-10-13', day: '2026-10-13', text: 'Good start to the week.' },
+];
+
+describe('review', () => {
+  describe('reviewSince', () => {
+    it('goes back a week or a month', () => {
+      const now = 100 * DAY;
+      expect(reviewSince('weekly', now)).toBe(93 * DAY);
+      expect(reviewSince('monthly', now)).toBe(70 * DAY);
+    });
+  });
+
+  describe('reviewDue', () => {
+    it('is never due when off', () => {
+      expect(reviewDue('off', 0, 100 * DAY)).toBe(false);
+    });
+
+    it('is due once the period has passed', () => {
+      expect(reviewDue('weekly', 0, 100 * DAY)).toBe(true);
+      expect(reviewDue('weekly', 95 * DAY, 100 * DAY)).toBe(false);
+      expect(reviewDue('monthly', 75 * DAY, 100 * DAY)).toBe(false);
+      expect(reviewDue('monthly', 70 * DAY, 100 * DAY)).toBe(true);
+    });
+  });
+
+  describe('buildReviewPrompt', () => {
+    it('lists entries oldest first with their links', () => {
+      const { prompt, included } = buildReviewPrompt('weekly', entries);
+      expect(prompt).toMatch(/^\[REVIEW MODE - .*past week.*\]/);
+      expect(prompt.indexOf('[[Daily/2026-10-13]] (2026-10-13)')).toBeLessThan(prompt.indexOf('[[Daily/2026-10-18]] (2026-10-18)'));
+      expect(prompt).toContain('Slept badly again.');
+      expect(included.map(e => e.day)).toEqual(['2026-10-13', '2026-10-18']);
+    });
+
+    it('leaves out the oldest entries past the size limit', () => {
+      const long = Array.from({ length: 30 }, (_, i) => ({
+        link: `Note ${i}`,
+        day: `2026-09-${i < 9 ? '0' : ''}${i + 1}`,
+        text: 'x'.repeat(5000),
+      }));
+      const { prompt, included } = buildReviewPrompt('monthly', long);
+      expect(included.length).toBeGreaterThan(0);
+      expect(included.length).toBeLessThan(30);
+      expect(included[included.length - 1].link).toBe('Note 29');
+      expect(included.map(e => e.day)).toEqual(included.map(e => e.day).sort());
+      expect(prompt).not.toContain(`[[Note ${29 - included.length}]]`);
+    });
+  });
+
+  describe('reviewNoteContent', () => {
+    it('switches the agent off and links every source', () => {
+      const content = reviewNoteContent('Weekly review 2026-10-19', '## Patterns\n\nSleep.\n', entries);
+      expect(content.startsWith('---\ntherapist: off\n---\n')).toBe(true);
+      expect(content).toContain('# Weekly review 2026-10-19\n\n## Patterns\n\nSleep.\n\n## Entries');
+      expect(content).toContain('- [[Daily/2026-10-18]] (2026-10-18)');
+      expect(content).toContain('- [[Daily/2026-10-13]] (2026-10-13)');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SecretSettings,
+  SecretStore,
+  SecretsError,
+  decryptSecret,
+  encryptSecret,
+  generateDeviceKey,
+  importDeviceKey,
+  isEncrypted,
+} from '../src/secrets';
+
+function settings(overrides: Partial<SecretSettings> = {}): SecretSettings {
+  return {
+    apiKey: '',
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    localApiKey: '',
+    secretMode: 'device',
+    secretSalt: '',
+    secretCheck: '',
+    ...overrides,
+  };
+}
+
+function memoryStorage(initial: string | null = null) {
+  let stored = initial;
+  return {
+    load: () => stored,
+    save: (key: string) => { stored = key; },
+  };
+}
+
+describe('encryptSecret / decryptSecret', () => {
+  it('round-trips a value', async () => {
+    const key = await importDeviceKey(generateDeviceKey());
+    const encrypted = await encryptSecret('sk-ant-123', key);
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('sk-ant-123');
+    expect(await decryptSecret(encrypted, key)).toBe('sk-ant-123');
+  });
+
+  it('keeps empty values empty and passes plaintext through', async () => {
+    const key = await importDeviceKey(generateDeviceKey());
+    expect(await encryptSecret('', key)).toBe('');
+    expect(await decryptSecret('sk-plain', key)).toBe('sk-plain');
+  });
+
+  it('rejects the wrong key', async () => {
+    const encrypted = await encryptSecret('secret', await importDeviceKey(generateDeviceKey()));
+    const otherKey = await importDeviceKey(generateDeviceKey());
+
+    await expect(decryptSecret(encrypted, otherKey)).rejects.toBeInstanceOf(SecretsError);
+  });
+});
+
+describe('SecretStore', () => {
+  it('migrates plaintext keys on load', async () => {
+    const data = settings({ apiKey: 'sk-let-1', openaiApiKey: 'sk-proj-2' });
+    let saves = 0;
+    const store = new SecretStore(data, memoryStorage(), async () => { saves++; });
+
+    expect(await store.load()).toBe('ready');
+    expect(store.get('apiKey')).toBe('sk-let-1');
+    expect(isEncrypted(data.apiKey)).toBe(true);
+    expect(isEncrypted(data.openaiApiKey)).toBe(true);
+    expect(data.anthropicApiKey).toBe('');
+    expect(saves).toBe(1);
+  });
+
+  it('writes keys typed in quick succession in order', async () => {
+    const data = settings();
+    const storage = memoryStorage();
+    let saving = 0;
+    let overlapped = false;
+    const store = new SecretStore(data, storage, async () => {
+      saving++;
+      overlapped = overlapped || saving > 1;
+      await new Promise(resolve => setTimeout(resolve, 1));
+      saving--;
+    });
+    await store.load();
+
+    await Promise.all(['s', 'sk', 'sk-', 'sk-let-full'].map(value => store.set('apiKey', value)));
+
+    expect(overlapped).toBe(false);
+    expect(store.get('apiKey')).toBe('sk-let-full');
+    const reopened = new SecretStore(data, storage, async () => {});
+    await reopened.load();
+    expect(reopened.get('apiKey')).toBe('sk-let-full');
+  });
+
+  it('reads keys back with the same device key', async () => {
+    const data = settings();
+    const storage = memoryStorage();
+    const first = new SecretStore(data, storage, async () => {});
+    await first.load();
+    await first.set('anthropicApiKey', 'sk-ant-9');
+
+    const second = new SecretStore(data, storage, async () => {});
+    expect(await second.load()).toBe('ready');
+    expect(second.get('anthropicApiKey')).toBe('sk-ant-9');
+  });
+
+  it('reports keys encrypted on another device as unreadable', async () => {
+    const data = settings();
+    const first = new SecretStore(data, memoryStorage(), async () => {});
+    await first.load();
+    await first.set('apiKey', 'sk-let-1');
+
+    const elsewhere = new SecretStore(data, memoryStorage(), async () => {});
+    expect(await elsewhere.load()).toBe('unreadable');
+    expect(elsewhere.get('apiKey')).toBe('');
+    expect(isEncrypted(data.apiKey)).toBe(true);
+  });
+
+  it('won\'t switch modes over keys it cannot read', async () => {
+    const data = settings();
+    const first = new SecretStore(data, memoryStorage(), async () => {});
+    await first.load();
+    await first.set('apiKey', 'sk-let-1');
+    const stored = data.apiKey;
+
+    const elsewhere = new SecretStore(data, memoryStorage(), async () => {});
+    await elsewhere.load();
+    await expect(elsewhere.usePassphrase('correct horse')).rejects.toBeInstanceOf(SecretsError);
+    await expect(elsewhere.useDeviceKey()).rejects.toBeInstanceOf(SecretsError);
+    expect(data.apiKey).toBe(stored);
+    expect(data.secretMode).toBe('device');
+
+    await elsewhere.set('apiKey', 'sk-let-2');
+    await elsewhere.usePassphrase('correct horse');
+    expect(data.secretMode).toBe('passphrase');
+  });
+
+  it('switches to a passphrase and unlocks with it', async () => {
+    const data = settings({ apiKey: 'sk-let-1' });
+    const store = new SecretStore(data, memoryStorage(), async () => {});
+    await store.load();
+    await store.usePassphrase('correct horse');
+
+    expect(data.secretMode).toBe('passphrase');
+
+    const locked = new SecretStore(data, memoryStorage(), async () => {});
+    expect(await locked.load()).toBe('locked');
+    expect(locked.isLocked).toBe(true);
+    expect(await locked.unlock('wrong')).toBe(false);
+    expect(await locked.unlock('correct horse')).toBe(true);
+    expect(locked.get('apiKey')).toBe('sk-let-1');
+  });
+
+  it('refuses changes while locked', async () => {
+    const store = new SecretStore(settings({ secretMode: 'passphrase' }), memoryStorage(), async () => {});
+    await store.load();
+
+    await expect(store.set('apiKey', 'x')).rejects.toBeInstanceOf(SecretsError);
+  });
+});
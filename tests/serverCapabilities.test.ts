@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { capabilitiesFor, compareVersions, endpointPath, parseVersion } from '../src/serverCapabilities';
+
+describe('parseVersion', () => {
+  it('reads major, minor and patch', () => {
+    expect(parseVersion('0.11.2')).toEqual([0, 11, 2]);
+    expect(parseVersion('v0.7')).toEqual([0, 7, 0]);
+    expect(parseVersion('0.12.1-dev')).toEqual([0, 12, 1]);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseVersion('latest')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares numerically, not as strings', () => {
+    expect(compareVersions('0.11.0', '0.7.0')).toBeGreaterThan(0);
+    expect(compareVersions('0.6.9', '0.7.0')).toBeLessThan(0);
+    expect(compareVersions('0.7', '0.7.0')).toBe(0);
+  });
+});
+
+describe('capabilitiesFor', () => {
+  it('enables features from the version that added them', () => {
+    const old = capabilitiesFor('0.6.3');
+    expect(old.features.providers).toBe(true);
+    expect(old.features.sleeptime).toBe(false);
+    expect(old.features.archives).toBe(false);
+
+    const current = capabilitiesFor('0.11.4');
+    expect(current.features.sleeptime).toBe(true);
+    expect(current.features.archives).toBe(true);
+  });
+
+  it('treats servers older than the table like the oldest row', () => {
+    expect(capabilitiesFor('0.3.0').features.providers).toBe(false);
+  });
+
+  it('assumes the newest server when the version is unknown', () => {
+    const unknown = capabilitiesFor(null);
+    expect(unknown.version).toBeNull();
+    expect(unknown.features.archives).toBe(true);
+    expect(capabilitiesFor('nightly').features.sleeptime).toBe(true);
+  });
+});
+
+describe('endpointPath', () => {
+  it('adds the trailing slash to collection paths', () => {
+    expect(endpointPath('/v1/archives')).toBe('/v1/archives/');
+    expect(endpointPath('/v1/archives/')).toBe('/v1/archives/');
+    expect(endpointPath('/v1/archives/archive-1/passages')).toBe('/v1/archives/archive-1/passages/');
+    expect(endpointPath('/v1/health')).toBe('/v1/health/');
+  });
+
+  it('keeps the query string', () => {
+    expect(endpointPath('/v1/agents?limit=5')).toBe('/v1/agents/?limit=5');
+  });
+
+  it('leaves item paths alone', () => {
+    expect(endpointPath('/v1/agents/agent-1/archival-memory')).toBe('/v1/agents/agent-1/archival-memory');
+    expect(endpointPath('/v1/agents/agent-1')).toBe('/v1/agents/agent-1');
+    expect(endpointPath('/v1/agents/agent-1/messages/stream')).toBe('/v1/agents/agent-1/messages/stream');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { splitSSEEvents, getAssistantDelta, getChatCompletionDelta } from '../src/sseParser';
+
+describe('sseParser', () => {
+  describe('splitSSEEvents', () => {
+    it('flushes the last event once the stream has ended', () => {
+      const result = splitSSEEvents('data: {"a":1}\n\ndata: {"b":2}', true);
+
+      expect(result.events).toEqual(['{"a":1}', '{"b":2}']);
+      expect(result.rest).toBe('');
+    });
+
+    it('returns complete events and keeps the partial remainder', () => {
+      const buffer = 'data: {"a":1}\n\ndata: {"b":2}\n\ndata: {"c"';
+
+      const result = splitSSEEvents(buffer);
+
+      expect(result.events).toEqual(['{"a":1}', '{"b":2}']);
+      expect(result.rest).toBe('data: {"c"');
+    });
+
+    it('handles CRLF line endings', () => {
+      const result = splitSSEEvents('data: one\r\n\r\n');
+
+      expect(result.events).toEqual(['one']);
+      expect(result.rest).toBe('');
+    });
+
+    it('joins multi-line data fields and ignores other fields', () => {
+      const result = splitSSEEvents('event: message\ndata: first\ndata: second\n\n');
+
+      expect(result.events).toEqual(['first\nsecond']);
+    });
+
+    it('skips events without data', () => {
+      const result = splitSSEEvents(': keep-alive\n\n');
+
+      expect(result.events).toEqual([]);
+    });
+  });
+
+  describe('getAssistantDelta', () => {
+    it('returns content of assistant messages', () => {
+      const payload = JSON.stringify({ message_type: 'assistant_message', content: 'Hello' });
+
+      expect(getAssistantDelta(payload)).toBe('Hello');
+    });
+
+    it('joins array content parts', () => {
+      const payload = JSON.stringify({
+        message_type: 'assistant_message',
+        content: [{ type: 'text', text: 'Hel' }, { type: 'text', text: 'lo' }]
+      });
+
+      expect(getAssistantDelta(payload)).toBe('Hello');
+    });
+
+    it('ignores reasoning and tool messages', () => {
+      expect(getAssistantDelta(JSON.stringify({ message_type: 'reasoning_message', reasoning: 'hmm' }))).toBeNull();
+      expect(getAssistantDelta(JSON.stringify({ message_type: 'tool_call_message' }))).toBeNull();
+    });
+
+    it('ignores the DONE sentinel and malformed JSON', () => {
+      expect(getAssistantDelta('[DONE]')).toBeNull();
+      expect(getAssistantDelta('{not json')).toBeNull();
+    });
+  });
+
+  describe('getChatCompletionDelta', () => {
+    it('returns the delta content of a chunk', () => {
+      const payload = JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] });
+
+      expect(getChatCompletionDelta(payload)).toBe('Hi');
+    });
+
+    it('ignores role-only chunks, DONE and malformed JSON', () => {
+      expect(getChatCompletionDelta(JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }))).toBeNull();
+      expect(getChatCompletionDelta('[DONE]')).toBeNull();
+      expect(getChatCompletionDelta('{oops')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { DELETED_AGENT_ID, UsageEntry, UsageTracker, dayKey, estimateCost, formatCost, hasKnownPrice } from '../src/usage';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+describe('estimateCost', () => {
+  it('prices known models per million tokens', () => {
+    expect(estimateCost('anthropic/claude-sonnet-4-20250514', usage(1000000, 0))).toBeCloseTo(3);
+    expect(estimateCost('openai/gpt-4o-mini', usage(0, 1000000))).toBeCloseTo(0.6);
+    expect(estimateCost('openai/gpt-4o', usage(0, 1000000))).toBeCloseTo(10);
+  });
+
+  it('treats free providers and unknown models as free', () => {
+    expect(estimateCost('letta/letta-free', usage(5000, 5000))).toBe(0);
+    expect(estimateCost('ollama/llama3.2', usage(5000, 5000))).toBe(0);
+    expect(estimateCost('together/mystery-model', usage(5000, 5000))).toBe(0);
+    expect(hasKnownPrice('together/mystery-model')).toBe(false);
+    expect(hasKnownPrice('letta/letta-free')).toBe(true);
+  });
+});
+
+describe('formatCost', () => {
+  it('shows tiny amounts as under a cent', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+});
+
+describe('UsageTracker', () => {
+  const now = new Date(2026, 2, 15, 12, 0);
+
+  it('merges usage for the same day, agent, note and model', async () => {
+    const entries: UsageEntry[] = [];
+    const tracker = new UsageTracker(entries, async () => {});
+
+    await tracker.record('agent-1', 'Journal/a.md', 'openai/gpt-4o', usage(100, 10), now);
+    await tracker.record('agent-1', 'Journal/a.md', 'openai/gpt-4o', usage(200, 20), now);
+    await tracker.record('agent-1', 'Journal/b.md', 'openai/gpt-4o', usage(50, 5), now);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ day: '2026-03-15', calls: 2, promptTokens: 300, completionTokens: 30 });
+  });
+
+  it('moves an agent\'s usage to another id and keeps counting it', async () => {
+    const entries: UsageEntry[] = [];
+    const tracker = new UsageTracker(entries, async () => {});
+    await tracker.record('agent-1', 'a.md', 'openai/gpt-4o', usage(100, 10), now);
+    await tracker.record('agent-2', 'a.md', 'openai/gpt-4o', usage(100, 10), now);
+
+    await tracker.reassign('agent-1', DELETED_AGENT_ID);
+
+    expect(entries.map(e => e.agentId)).toEqual([DELETED_AGENT_ID, 'agent-2']);
+    expect(tracker.today(now).calls).toBe(2);
+  });
+
+  it('totals today and this month', async () => {
+    const tracker = new UsageTracker([], async () => {});
+    await tracker.record('a', '', 'anthropic/claude-sonnet-4', usage(1000000, 0), new Date(2026, 2, 1));
+    await tracker.record('a', '', 'anthropic/claude-sonnet-4', usage(1000000, 0), now);
+
+    expect(tracker.today(now).cost).toBeCloseTo(3);
+    expect(tracker.thisMonth(now).cost).toBeCloseTo(6);
+  });
+
+  it('summarizes by note, most expensive first', async () => {
+    const tracker = new UsageTracker([], async () => {});
+    await tracker.record('a', 'cheap.md', 'openai/gpt-4o-mini', usage(1000, 0), now);
+    await tracker.record('a', 'pricey.md', 'openai/gpt-4o', usage(1000, 0), now);
+
+    expect(tracker.summarize('notePath').map(r => r.key)).toEqual(['pricey.md', 'cheap.md']);
+  });
+
+  it('goes manual-only near a budget and pauses past it', async () => {
+    const tracker = new UsageTracker([], async () => {});
+    expect(tracker.budgetState({ daily: 1, monthly: 0 }, now)).toBe('ok');
+
+    // $0.90 of a $1 daily budget
+    await tracker.record('a', '', 'openai/gpt-4o', usage(0, 90000), now);
+    expect(tracker.budgetState({ daily: 1, monthly: 0 }, now)).toBe('manual-only');
+    expect(tracker.budgetState({ daily: 0, monthly: 0 }, now)).toBe('ok');
+
+    await tracker.record('a', '', 'openai/gpt-4o', usage(0, 20000), now);
+    expect(tracker.budgetState({ daily: 1, monthly: 0 }, now)).toBe('paused');
+    expect(tracker.budgetState({ daily: 1, monthly: 0 }, new Date(2026, 2, 16))).toBe('ok');
+  });
+
+  it('drops entries older than the retention window', async () => {
+    const entries: UsageEntry[] = [];
+    const tracker = new UsageTracker(entries, async () => {});
+    await tracker.record('a', '', 'letta/letta-free', usage(1, 1), new Date(2024, 0, 1));
+    await tracker.record('a', '', 'letta/letta-free', usage(1, 1), now);
+
+    expect(entries.map(e => e.day)).toEqual([dayKey(now)]);
+  });
+});